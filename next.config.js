@@ -1,3 +1,7 @@
+// Sites allowed to frame the chat widget (/embed), space- or comma-separated.
+// Defaults to any site, since the loader is meant to be dropped into client sites.
+const embedAllowedOrigins = (process.env.EMBED_ALLOWED_ORIGINS || '*').split(/[\s,]+/).filter(Boolean).join(' ')
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   reactStrictMode: true,
@@ -34,10 +38,6 @@ const nextConfig = {
             key: 'X-DNS-Prefetch-Control',
             value: 'on'
           },
-          {
-            key: 'X-Frame-Options',
-            value: 'SAMEORIGIN'
-          },
           {
             key: 'X-Content-Type-Options',
             value: 'nosniff'
@@ -52,6 +52,34 @@ const nextConfig = {
           }
         ],
       },
+      {
+        // Everything except the widget stays unframeable by other sites
+        source: '/:path((?!embed$).*)',
+        headers: [
+          {
+            key: 'X-Frame-Options',
+            value: 'SAMEORIGIN'
+          }
+        ],
+      },
+      {
+        source: '/embed',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: `frame-ancestors 'self' ${embedAllowedOrigins}`
+          }
+        ],
+      },
+      {
+        source: '/embed.js',
+        headers: [
+          {
+            key: 'Cache-Control',
+            value: 'public, max-age=3600'
+          }
+        ],
+      },
     ]
   },
 }
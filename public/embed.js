@@ -0,0 +1,177 @@
+/*
+ * AuraXPro chat widget loader.
+ *
+ *   <script src="https://auraxpro.com/embed.js" async
+ *     data-project="vr-room-planner" data-theme="dark" data-greeting="Questions about this project?"
+ *     data-locale="de"></script>
+ *
+ * Adds a floating launcher that opens the chat (served from /embed) in a panel.
+ * The host page controls it with window.AuraXPro.open() / close() / toggle() /
+ * selectProject(slug), or by posting the same commands to itself:
+ *
+ *   window.postMessage({ type: 'auraxpro:open' }, '*')
+ *   window.postMessage({ type: 'auraxpro:select-project', project: 'vr-room-planner' }, '*')
+ */
+(function () {
+  'use strict';
+
+  var script = document.currentScript;
+  if (!script || window.AuraXPro) return;
+
+  var origin = new URL(script.src).origin;
+  var data = script.dataset;
+  var config = {
+    project: data.project || '',
+    theme: data.theme === 'light' ? 'light' : 'dark',
+    greeting: data.greeting || '',
+    // en, de or ja; the widget follows the visitor's browser when omitted
+    locale: data.locale || '',
+    position: data.position === 'left' ? 'left' : 'right',
+  };
+
+  var launcher;
+  var panel;
+  var frame;
+  var ready = false;
+  var isOpen = false;
+
+  function style(el, rules) {
+    for (var key in rules) el.style[key] = rules[key];
+  }
+
+  function embedUrl() {
+    var params = new URLSearchParams({ theme: config.theme });
+    if (config.project) params.set('project', config.project);
+    if (config.greeting) params.set('greeting', config.greeting);
+    if (config.locale) params.set('locale', config.locale);
+    return origin + '/embed?' + params.toString();
+  }
+
+  function sendToWidget(message) {
+    if (frame && ready) frame.contentWindow.postMessage(message, origin);
+  }
+
+  // The iframe is only created on first open, so the widget costs host pages nothing until used
+  function createPanel() {
+    panel = document.createElement('div');
+    style(panel, {
+      position: 'fixed',
+      bottom: '96px',
+      width: '380px',
+      maxWidth: 'calc(100vw - 32px)',
+      height: '600px',
+      maxHeight: 'calc(100vh - 120px)',
+      borderRadius: '16px',
+      overflow: 'hidden',
+      boxShadow: '0 12px 40px rgba(0, 0, 0, 0.35)',
+      zIndex: '2147483000',
+      display: 'none',
+    });
+    panel.style[config.position] = '24px';
+
+    frame = document.createElement('iframe');
+    frame.src = embedUrl();
+    frame.title = 'AuraXPro AI chat';
+    frame.allow = 'clipboard-write';
+    style(frame, { width: '100%', height: '100%', border: '0', display: 'block' });
+    panel.appendChild(frame);
+    document.body.appendChild(panel);
+  }
+
+  function open() {
+    if (!document.body) return;
+    if (!panel) createPanel();
+    panel.style.display = 'block';
+    if (launcher) launcher.setAttribute('aria-expanded', 'true');
+    isOpen = true;
+  }
+
+  function close() {
+    if (panel) panel.style.display = 'none';
+    if (launcher) launcher.setAttribute('aria-expanded', 'false');
+    isOpen = false;
+  }
+
+  function toggle() {
+    if (isOpen) close();
+    else open();
+  }
+
+  function selectProject(slug) {
+    config.project = slug || '';
+    // Before the widget is ready the project travels in the iframe URL instead
+    sendToWidget({ type: 'auraxpro:select-project', project: slug || null });
+    open();
+  }
+
+  function handleCommand(message) {
+    switch (message.type) {
+      case 'auraxpro:open':
+        if (message.project !== undefined) selectProject(message.project);
+        else open();
+        break;
+      case 'auraxpro:close':
+        close();
+        break;
+      case 'auraxpro:toggle':
+        toggle();
+        break;
+      case 'auraxpro:select-project':
+        selectProject(message.project);
+        break;
+    }
+  }
+
+  window.addEventListener('message', function (event) {
+    var message = event.data;
+    if (!message || typeof message.type !== 'string') return;
+
+    if (frame && event.source === frame.contentWindow) {
+      if (event.origin !== origin) return;
+      if (message.type === 'auraxpro:ready') {
+        ready = true;
+        // The project may have changed since the iframe URL was built
+        sendToWidget({ type: 'auraxpro:select-project', project: config.project || null });
+      } else if (message.type === 'auraxpro:close') {
+        close();
+      }
+    } else if (event.source === window) {
+      handleCommand(message);
+    }
+  });
+
+  function mount() {
+    launcher = document.createElement('button');
+    launcher.type = 'button';
+    launcher.setAttribute('aria-label', 'Chat with AuraXPro AI');
+    launcher.setAttribute('aria-expanded', 'false');
+    launcher.innerHTML =
+      '<svg width="26" height="26" fill="none" stroke="currentColor" viewBox="0 0 24 24" aria-hidden="true">' +
+      '<path stroke-linecap="round" stroke-linejoin="round" stroke-width="2" d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z"/>' +
+      '</svg>';
+    style(launcher, {
+      position: 'fixed',
+      bottom: '24px',
+      width: '56px',
+      height: '56px',
+      borderRadius: '50%',
+      border: '0',
+      cursor: 'pointer',
+      display: 'flex',
+      alignItems: 'center',
+      justifyContent: 'center',
+      background: config.theme === 'light' ? '#ffffff' : '#212121',
+      color: config.theme === 'light' ? '#111827' : '#ffffff',
+      boxShadow: '0 6px 24px rgba(0, 0, 0, 0.3)',
+      zIndex: '2147483000',
+    });
+    launcher.style[config.position] = '24px';
+    launcher.addEventListener('click', toggle);
+    document.body.appendChild(launcher);
+  }
+
+  if (document.body) mount();
+  else document.addEventListener('DOMContentLoaded', mount);
+
+  window.AuraXPro = { open: open, close: close, toggle: toggle, selectProject: selectProject };
+})();
@@ -0,0 +1,81 @@
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import { requireAdmin } from '@/lib/admin-auth';
+import { findConversationProject } from '@/lib/projects';
+import { getConversation } from '@/lib/conversation-store';
+import { loadKnowledge } from '@/lib/retrieval';
+import { isUnansweredReply } from '@/lib/unanswered';
+import { formatCost } from '@/lib/usage';
+
+interface TranscriptPageProps {
+  params: Promise<{ sessionId: string; conversationId: string }>;
+}
+
+export default async function TranscriptPage({ params }: TranscriptPageProps) {
+  await requireAdmin();
+  const { sessionId, conversationId } = await params;
+  const [conversation, { projects }] = await Promise.all([
+    getConversation(sessionId, conversationId),
+    loadKnowledge(),
+  ]);
+
+  if (!conversation) {
+    notFound();
+  }
+
+  const project = findConversationProject(projects, conversationId);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/admin" className="text-sm text-gray-400 hover:text-white">← All conversations</Link>
+        <h1 className="text-xl font-semibold mt-2">{project ? project.name : conversationId}</h1>
+        <p className="text-xs text-gray-500 mt-1">
+          Session {sessionId} • {conversation.messages.length} messages • started {new Date(conversation.createdAt).toLocaleString()}
+        </p>
+        {project && (
+          <p className="text-sm text-gray-400 mt-2">
+            Project context: {project.category} for {project.client_name} — {project.goal_summary}
+          </p>
+        )}
+      </div>
+
+      <ol className="space-y-4">
+        {conversation.messages.map(message => {
+          const flagged = message.role === 'assistant' && (message.status === 'error' || isUnansweredReply(message.content));
+          return (
+            <li
+              key={message.uid}
+              className={`rounded-xl border px-4 py-3 text-sm ${
+                flagged
+                  ? 'border-amber-900/60 bg-amber-950/20'
+                  : message.role === 'user'
+                    ? 'border-gray-700 bg-gray-800'
+                    : 'border-gray-700 bg-[#212121]'
+              }`}
+            >
+              <div className="flex items-center justify-between text-xs text-gray-500 mb-2">
+                <span className="uppercase font-semibold">{message.role}</span>
+                <span>
+                  {new Date(message.ts).toLocaleString()}
+                  {message.model ? ` • ${message.model}` : ''}
+                  {message.costUSD !== undefined ? ` • ${formatCost(message.costUSD)}` : ''}
+                  {message.latencyMs !== undefined ? ` • ${(message.latencyMs / 1000).toFixed(1)}s` : ''}
+                  {message.stopped ? ' • stopped' : ''}
+                  {flagged ? ' • flagged' : ''}
+                </span>
+              </div>
+              <div className="whitespace-pre-wrap break-words text-gray-100">{message.content}</div>
+              {message.error && <div className="mt-2 text-xs text-red-400">Error: {message.error}</div>}
+              {message.citations && message.citations.length > 0 && (
+                <div className="mt-2 text-xs text-gray-500">
+                  Sources: {message.citations.map(c => `${c.marker} ${c.title} (${c.id})`).join(', ')}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+}
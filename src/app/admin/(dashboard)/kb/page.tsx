@@ -0,0 +1,14 @@
+import KnowledgeEditor from '@/components/KnowledgeEditor';
+import { requireAdmin } from '@/lib/admin-auth';
+import { listVersions, readKnowledgeFile } from '@/lib/kb-store';
+
+export default async function AdminKnowledgePage() {
+  await requireAdmin();
+  const [kb, projects, versions] = await Promise.all([
+    readKnowledgeFile('kb'),
+    readKnowledgeFile('projects'),
+    listVersions(),
+  ]);
+
+  return <KnowledgeEditor initialKB={kb} initialProjects={projects} initialVersions={versions} />;
+}
@@ -0,0 +1,25 @@
+import Link from 'next/link';
+import { requireAdmin } from '@/lib/admin-auth';
+
+export const dynamic = 'force-dynamic';
+
+export default async function AdminLayout({ children }: { children: React.ReactNode }) {
+  await requireAdmin();
+
+  return (
+    <>
+      <header className="border-b border-gray-700 px-6 py-3 flex items-center justify-between">
+        <nav className="flex items-center gap-4 text-sm">
+          <Link href="/admin" className="font-semibold text-white">AuraXPro Admin</Link>
+          <Link href="/admin" className="text-gray-400 hover:text-white">Conversations</Link>
+          <Link href="/admin/kb" className="text-gray-400 hover:text-white">Knowledge base</Link>
+          <Link href="/admin/usage" className="text-gray-400 hover:text-white">Usage</Link>
+        </nav>
+        <form action="/api/admin/logout" method="post">
+          <button type="submit" className="text-sm text-gray-400 hover:text-white">Sign out</button>
+        </form>
+      </header>
+      <main className="max-w-6xl mx-auto px-6 py-8">{children}</main>
+    </>
+  );
+}
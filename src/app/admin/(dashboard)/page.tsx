@@ -0,0 +1,136 @@
+import Link from 'next/link';
+import { requireAdmin } from '@/lib/admin-auth';
+import { getConversationOverviews } from '@/lib/admin-data';
+import { listLeads } from '@/lib/lead-store';
+import { formatCost } from '@/lib/usage';
+
+interface AdminPageProps {
+  searchParams: Promise<{ filter?: string }>;
+}
+
+function formatDate(ts: number): string {
+  return new Date(ts).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export default async function AdminDashboardPage({ searchParams }: AdminPageProps) {
+  await requireAdmin();
+  const { filter } = await searchParams;
+  const flaggedOnly = filter === 'flagged';
+  const [overviews, leads] = await Promise.all([getConversationOverviews(), listLeads()]);
+  const flagged = overviews.filter(o => o.unanswered.length > 0);
+  const visible = flaggedOnly ? flagged : overviews;
+
+  return (
+    <div className="space-y-10">
+      {/* Stats */}
+      <section className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        {[
+          { label: 'Conversations', value: overviews.length },
+          { label: 'Flagged (assistant didn\'t know)', value: flagged.length },
+          { label: 'Leads', value: leads.length },
+        ].map(stat => (
+          <div key={stat.label} className="rounded-xl border border-gray-700 bg-[#212121] p-4">
+            <div className="text-2xl font-semibold">{stat.value}</div>
+            <div className="text-xs text-gray-400 uppercase mt-1">{stat.label}</div>
+          </div>
+        ))}
+      </section>
+
+      {/* Unanswered questions */}
+      {flagged.length > 0 && (
+        <section>
+          <h2 className="text-sm font-semibold text-gray-400 uppercase mb-3">Unanswered Questions</h2>
+          <ul className="space-y-2">
+            {flagged.flatMap(o => o.unanswered.map((item, i) => (
+              <li key={`${o.sessionId}-${o.conversationId}-${i}`} className="rounded-lg border border-amber-900/60 bg-amber-950/20 px-4 py-3 text-sm">
+                <Link
+                  href={`/admin/conversations/${o.sessionId}/${encodeURIComponent(o.conversationId)}`}
+                  className="text-white hover:underline"
+                >
+                  {item.question}
+                </Link>
+                <div className="text-xs text-gray-500 mt-1">{formatDate(item.ts)}{o.projectName ? ` • ${o.projectName}` : ''}</div>
+              </li>
+            )))}
+          </ul>
+        </section>
+      )}
+
+      {/* Conversations */}
+      <section>
+        <div className="flex items-center justify-between mb-3">
+          <h2 className="text-sm font-semibold text-gray-400 uppercase">Conversations</h2>
+          <div className="flex items-center gap-3 text-sm">
+            <Link href={flaggedOnly ? '/admin' : '/admin?filter=flagged'} className="text-gray-400 hover:text-white">
+              {flaggedOnly ? 'Show all' : 'Flagged only'}
+            </Link>
+            <a href={`/api/admin/export${flaggedOnly ? '?flagged=1' : ''}`} className="px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white">
+              Export JSON
+            </a>
+          </div>
+        </div>
+        {visible.length === 0 ? (
+          <p className="text-sm text-gray-500">No conversations stored yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="py-2 pr-4">First message</th>
+                <th className="py-2 pr-4">Project</th>
+                <th className="py-2 pr-4">Messages</th>
+                <th className="py-2 pr-4">Cost</th>
+                <th className="py-2 pr-4">Last update</th>
+                <th className="py-2">Flags</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {visible.map(o => (
+                <tr key={`${o.sessionId}-${o.conversationId}`}>
+                  <td className="py-2 pr-4 max-w-md truncate">
+                    <Link
+                      href={`/admin/conversations/${o.sessionId}/${encodeURIComponent(o.conversationId)}`}
+                      className="text-white hover:underline"
+                    >
+                      {o.firstMessage || o.conversationId}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-400">{o.projectName || '—'}</td>
+                  <td className="py-2 pr-4 text-gray-400">{o.messageCount}</td>
+                  <td className="py-2 pr-4 text-gray-400">{formatCost(o.costUSD)}</td>
+                  <td className="py-2 pr-4 text-gray-400">{formatDate(o.updatedAt)}</td>
+                  <td className="py-2">
+                    {o.unanswered.length > 0 && (
+                      <span className="px-2 py-0.5 rounded-full bg-amber-900/50 text-amber-300 text-xs">
+                        {o.unanswered.length} unanswered
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {/* Leads */}
+      <section>
+        <h2 className="text-sm font-semibold text-gray-400 uppercase mb-3">Leads</h2>
+        {leads.length === 0 ? (
+          <p className="text-sm text-gray-500">No leads yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {leads.map(lead => (
+              <li key={lead.id} className="rounded-lg border border-gray-700 bg-[#212121] px-4 py-3 text-sm">
+                <div className="flex items-center justify-between gap-4">
+                  <span className="font-medium">{lead.name} &lt;{lead.email}&gt;</span>
+                  <span className="text-xs text-gray-500">{formatDate(lead.createdAt)} • {lead.budget}</span>
+                </div>
+                <p className="text-gray-400 mt-1 whitespace-pre-wrap">{lead.summary}</p>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
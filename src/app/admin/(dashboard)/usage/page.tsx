@@ -0,0 +1,121 @@
+import Link from 'next/link';
+import { requireAdmin } from '@/lib/admin-auth';
+import { formatCost } from '@/lib/usage';
+import { getUsageMetrics, UsageTotals } from '@/lib/usage-store';
+
+interface UsagePageProps {
+  searchParams: Promise<{ days?: string }>;
+}
+
+const RANGES = [7, 30, 90];
+
+function formatErrors(totals: UsageTotals): string {
+  const entries = Object.entries(totals.errorsByStatus);
+  if (entries.length === 0) return '—';
+  return `${(totals.errorRate * 100).toFixed(1)}% (${entries.map(([status, count]) => `${status}: ${count}`).join(', ')})`;
+}
+
+export default async function AdminUsagePage({ searchParams }: UsagePageProps) {
+  await requireAdmin();
+  const { days: rawDays } = await searchParams;
+  const days = RANGES.includes(Number(rawDays)) ? Number(rawDays) : 30;
+  const metrics = await getUsageMetrics(days);
+
+  return (
+    <div className="space-y-10">
+      <div className="flex items-center justify-between">
+        <h1 className="text-xl font-semibold">Usage & Cost</h1>
+        <div className="flex items-center gap-3 text-sm">
+          {RANGES.map(range => (
+            <Link
+              key={range}
+              href={`/admin/usage?days=${range}`}
+              className={range === days ? 'text-white' : 'text-gray-400 hover:text-white'}
+            >
+              {range} days
+            </Link>
+          ))}
+          <a href={`/api/admin/metrics?days=${days}`} className="px-3 py-1.5 rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 hover:text-white">
+            JSON
+          </a>
+        </div>
+      </div>
+
+      <section className="grid grid-cols-2 sm:grid-cols-4 gap-4">
+        {[
+          { label: 'Tokens', value: metrics.totals.totalTokens.toLocaleString('en-US') },
+          { label: 'Cost', value: formatCost(metrics.totals.costUSD) },
+          { label: 'Cost per lead', value: metrics.costPerLead === null ? '—' : formatCost(metrics.costPerLead) },
+          { label: 'Avg latency', value: `${(metrics.totals.avgLatencyMs / 1000).toFixed(1)}s` },
+        ].map(stat => (
+          <div key={stat.label} className="rounded-xl border border-gray-700 bg-[#212121] p-4">
+            <div className="text-2xl font-semibold">{stat.value}</div>
+            <div className="text-xs text-gray-400 uppercase mt-1">{stat.label}</div>
+          </div>
+        ))}
+      </section>
+
+      <section>
+        <h2 className="text-sm font-semibold text-gray-400 uppercase mb-3">By Day</h2>
+        {metrics.days.length === 0 ? (
+          <p className="text-sm text-gray-500">No model calls recorded in this period.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="py-2 pr-4">Date</th>
+                <th className="py-2 pr-4">Calls</th>
+                <th className="py-2 pr-4">Prompt / completion tokens</th>
+                <th className="py-2 pr-4">Cost</th>
+                <th className="py-2 pr-4">Avg latency</th>
+                <th className="py-2">Errors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {metrics.days.map(day => (
+                <tr key={day.date}>
+                  <td className="py-2 pr-4 text-gray-300">{day.date}</td>
+                  <td className="py-2 pr-4 text-gray-400">{day.calls}</td>
+                  <td className="py-2 pr-4 text-gray-400">
+                    {day.promptTokens.toLocaleString('en-US')} / {day.completionTokens.toLocaleString('en-US')}
+                  </td>
+                  <td className="py-2 pr-4 text-gray-400">{formatCost(day.costUSD)}</td>
+                  <td className="py-2 pr-4 text-gray-400">{(day.avgLatencyMs / 1000).toFixed(1)}s</td>
+                  <td className="py-2 text-gray-400">{formatErrors(day)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      {metrics.models.length > 0 && (
+        <section>
+          <h2 className="text-sm font-semibold text-gray-400 uppercase mb-3">By Model</h2>
+          <table className="w-full text-sm">
+            <thead className="text-left text-xs text-gray-500 uppercase">
+              <tr>
+                <th className="py-2 pr-4">Model</th>
+                <th className="py-2 pr-4">Calls</th>
+                <th className="py-2 pr-4">Tokens</th>
+                <th className="py-2 pr-4">Cost</th>
+                <th className="py-2">Errors</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-800">
+              {metrics.models.map(model => (
+                <tr key={model.model}>
+                  <td className="py-2 pr-4 text-gray-300">{model.model}</td>
+                  <td className="py-2 pr-4 text-gray-400">{model.calls}</td>
+                  <td className="py-2 pr-4 text-gray-400">{model.totalTokens.toLocaleString('en-US')}</td>
+                  <td className="py-2 pr-4 text-gray-400">{formatCost(model.costUSD)}</td>
+                  <td className="py-2 text-gray-400">{formatErrors(model)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+    </div>
+  );
+}
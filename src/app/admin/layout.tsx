@@ -0,0 +1,10 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Admin',
+  robots: { index: false, follow: false },
+};
+
+export default function AdminRootLayout({ children }: { children: React.ReactNode }) {
+  return <div className="min-h-screen bg-[#171717] text-white">{children}</div>;
+}
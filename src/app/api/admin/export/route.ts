@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/admin-auth';
+import { listAllConversations } from '@/lib/conversation-store';
+import { findUnansweredQuestions } from '@/lib/unanswered';
+
+// Downloads stored conversations as JSON; ?flagged=1 limits it to ones with unanswered questions
+export async function GET(req: NextRequest) {
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const flaggedOnly = req.nextUrl.searchParams.get('flagged') === '1';
+  const conversations = (await listAllConversations())
+    .map(conversation => ({
+      ...conversation,
+      unanswered: findUnansweredQuestions(conversation.messages),
+    }))
+    .filter(conversation => !flaggedOnly || conversation.unanswered.length > 0);
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(JSON.stringify({ exportedAt: Date.now(), conversations }, null, 2), {
+    headers: {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="auraxpro-conversations-${flaggedOnly ? 'flagged-' : ''}${date}.json"`,
+      'Cache-Control': 'no-store'
+    }
+  });
+}
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/admin-auth';
+import { listVersions, restoreVersion } from '@/lib/kb-store';
+
+// Body: { version } as returned by GET /api/admin/kb
+export async function POST(req: NextRequest) {
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const body = await req.json().catch(() => null);
+  if (typeof body?.version !== 'string') {
+    return NextResponse.json({ error: 'version is required' }, { status: 400 });
+  }
+
+  try {
+    const file = await restoreVersion(body.version);
+    return NextResponse.json({ ok: true, file, versions: await listVersions() });
+  } catch (error: any) {
+    return NextResponse.json({ error: error?.message || 'Failed to restore version' }, { status: 404 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/admin-auth';
+import { listVersions, readKnowledgeFile, saveKnowledge } from '@/lib/kb-store';
+
+export async function GET() {
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const [kb, projects, versions] = await Promise.all([
+    readKnowledgeFile('kb'),
+    readKnowledgeFile('projects'),
+    listVersions(),
+  ]);
+  return NextResponse.json({ kb, projects, versions }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+// Body: { kb } and/or { projects }
+export async function PUT(req: NextRequest) {
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  try {
+    const body = await req.json().catch(() => null);
+    if (!body || (body.kb === undefined && body.projects === undefined)) {
+      return NextResponse.json({ error: 'Provide kb and/or projects' }, { status: 400 });
+    }
+
+    const { fieldErrors } = await saveKnowledge({ kb: body.kb, projects: body.projects });
+    if (fieldErrors) {
+      return NextResponse.json({ error: 'Please fix the highlighted fields', fieldErrors }, { status: 400 });
+    }
+
+    return NextResponse.json({ ok: true, versions: await listVersions() });
+  } catch (error: any) {
+    console.error('Knowledge save error:', error);
+    return NextResponse.json({ error: error?.message || 'Failed to save knowledge base' }, { status: 500 });
+  }
+}
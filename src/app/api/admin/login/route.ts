@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ADMIN_COOKIE,
+  ADMIN_SESSION_TTL,
+  checkAdminPassword,
+  createAdminToken,
+  isAdminEnabled,
+} from '@/lib/admin-auth';
+import { getClientIp, takeToken } from '@/lib/rate-limit';
+
+export async function POST(req: NextRequest) {
+  if (!isAdminEnabled()) {
+    return NextResponse.json({ error: 'Admin access is not configured (set ADMIN_PASSWORD)' }, { status: 503 });
+  }
+
+  // Every attempt counts, so the password can't be guessed faster than 5 tries per 15 minutes
+  const limit = await takeToken(`admin-login:${getClientIp(req)}`, { capacity: 5, refillPerSecond: 5 / 900 });
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: 'Too many login attempts. Please try again later.' },
+      { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+    );
+  }
+
+  const body = await req.json().catch(() => null);
+  if (!checkAdminPassword(body?.password)) {
+    return NextResponse.json({ error: 'Invalid password' }, { status: 401 });
+  }
+
+  const res = NextResponse.json({ ok: true });
+  res.cookies.set(ADMIN_COOKIE, createAdminToken(), {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: ADMIN_SESSION_TTL,
+  });
+  return res;
+}
@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ADMIN_COOKIE, revokeAdminToken } from '@/lib/admin-auth';
+
+export async function POST(req: NextRequest) {
+  // A copied cookie must stop working too, not just this browser's
+  await revokeAdminToken(req.cookies.get(ADMIN_COOKIE)?.value);
+  const res = NextResponse.redirect(new URL('/admin/login', req.url), 303);
+  res.cookies.delete(ADMIN_COOKIE);
+  return res;
+}
@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isAdmin } from '@/lib/admin-auth';
+import { getUsageMetrics } from '@/lib/usage-store';
+
+// Aggregated model usage; ?days=7 narrows the window (default 30, max 90)
+export async function GET(req: NextRequest) {
+  if (!(await isAdmin())) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const days = Math.min(90, Math.max(1, Number(req.nextUrl.searchParams.get('days')) || 30));
+  return NextResponse.json(await getUsageMetrics(days), { headers: { 'Cache-Control': 'no-store' } });
+}
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { generateBrief } from '@/lib/brief-generator';
+import { ChatLimitError, checkDailyBudget, checkRateLimits, limitErrorResponse, parseChatRequest } from '@/lib/chat-limits';
+import { getClientIp } from '@/lib/rate-limit';
+import { getSessionId } from '@/lib/session';
+
+export async function POST(req: NextRequest) {
+  try {
+    // Same size limits as /api/chat; long conversations keep their newest turns
+    const request = parseChatRequest(await req.text());
+
+    if (!request || !request.messages.some(msg => msg.role === 'user')) {
+      return new Response(JSON.stringify({ error: 'A conversation with at least one user message is required' }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    // Briefs share the chat quota and daily token budget
+    const ip = getClientIp(req);
+    const sessionKey = getSessionId(req) || `ip:${ip}`;
+    await checkRateLimits(ip, sessionKey);
+    await checkDailyBudget(sessionKey, ip);
+
+    const brief = await generateBrief(request.messages, { sessionKey, ip });
+
+    return new Response(JSON.stringify({ brief }), {
+      headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' }
+    });
+  } catch (error: any) {
+    if (error instanceof ChatLimitError) {
+      return limitErrorResponse(error);
+    }
+
+    console.error('Brief generation error:', error);
+    return new Response(JSON.stringify({ error: error?.message || 'Failed to generate brief' }), {
+      status: error?.status === 429 ? 429 : 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  ConversationLimitError,
+  deleteStoredConversation,
+  getConversation,
+  isConversationStoreEnabled,
+  mergeConversation,
+  sanitizeMessages,
+} from '@/lib/conversation-store';
+import { getClientIp, takeToken } from '@/lib/rate-limit';
+import { getSessionId, resolveSession, setSessionCookie } from '@/lib/session';
+
+// Room for a full conversation at the store's message limits
+const MAX_BODY_BYTES = 2_000_000;
+
+type RouteContext = { params: Promise<{ conversationId: string }> };
+
+function disabled() {
+  return NextResponse.json({ error: 'Conversation sync is disabled' }, { status: 503 });
+}
+
+export async function GET(req: NextRequest, { params }: RouteContext) {
+  if (!isConversationStoreEnabled()) return disabled();
+
+  const { conversationId } = await params;
+  const sessionId = getSessionId(req);
+  const conversation = sessionId ? await getConversation(sessionId, conversationId) : null;
+
+  if (!conversation) {
+    return NextResponse.json({ error: 'Conversation not found' }, { status: 404 });
+  }
+  return NextResponse.json({ conversation }, { headers: { 'Cache-Control': 'no-store' } });
+}
+
+export async function PUT(req: NextRequest, { params }: RouteContext) {
+  if (!isConversationStoreEnabled()) return disabled();
+
+  try {
+    // Clients push after every reply, so allow bursts but not a flood
+    const limit = await takeToken(`sync:${getClientIp(req)}`, { capacity: 60, refillPerSecond: 1 });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many sync requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    // The header lets oversized bodies be refused unread; the check after reading covers clients that omit it
+    if (Number(req.headers.get('content-length')) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Conversation is too large to sync' }, { status: 413 });
+    }
+    const raw = await req.text();
+    if (Buffer.byteLength(raw) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Conversation is too large to sync' }, { status: 413 });
+    }
+
+    const { conversationId } = await params;
+    let body: any = null;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      // Reported as a missing messages array below
+    }
+    const messages = sanitizeMessages(conversationId, body?.messages);
+
+    if (messages.length === 0) {
+      return NextResponse.json({ error: 'Messages array is required' }, { status: 400 });
+    }
+
+    const { sessionId, isNew } = resolveSession(req);
+    const conversation = await mergeConversation(sessionId, conversationId, messages);
+    const res = NextResponse.json({ messageCount: conversation.messages.length, updatedAt: conversation.updatedAt });
+    return isNew ? setSessionCookie(res, sessionId) : res;
+  } catch (error: any) {
+    if (error instanceof ConversationLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 413 });
+    }
+    console.error('Conversation sync error:', error);
+    return NextResponse.json({ error: 'Failed to save conversation' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: NextRequest, { params }: RouteContext) {
+  if (!isConversationStoreEnabled()) return disabled();
+
+  const { conversationId } = await params;
+  const sessionId = getSessionId(req);
+  const deleted = sessionId ? await deleteStoredConversation(sessionId, conversationId) : false;
+
+  return NextResponse.json({ deleted }, { status: deleted ? 200 : 404 });
+}
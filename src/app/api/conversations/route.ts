@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { isConversationStoreEnabled, listConversationsForSession } from '@/lib/conversation-store';
+import { resolveSession, setSessionCookie } from '@/lib/session';
+
+export async function GET(req: NextRequest) {
+  if (!isConversationStoreEnabled()) {
+    return NextResponse.json({ error: 'Conversation sync is disabled' }, { status: 503 });
+  }
+
+  try {
+    const { sessionId, isNew } = resolveSession(req);
+    const conversations = isNew ? [] : await listConversationsForSession(sessionId);
+    const res = NextResponse.json({ conversations }, { headers: { 'Cache-Control': 'no-store' } });
+    return isNew ? setSessionCookie(res, sessionId) : res;
+  } catch (error: any) {
+    console.error('Conversation list error:', error);
+    return NextResponse.json({ error: 'Failed to load conversations' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest } from 'next/server';
+import { validateLead } from '@/lib/leads';
+import { forwardLead, saveLead } from '@/lib/lead-store';
+import { getClientIp, takeToken } from '@/lib/rate-limit';
+import { getRequestLocale } from '@/lib/locale';
+import { translate } from '@/lib/i18n';
+
+export async function POST(req: NextRequest) {
+  const locale = await getRequestLocale();
+  try {
+    const limit = await takeToken(`leads:${getClientIp(req)}`, { capacity: 5, refillPerSecond: 5 / 3600 });
+    if (!limit.allowed) {
+      return new Response(JSON.stringify({ error: translate(locale, 'lead.rateLimited') }), {
+        status: 429,
+        headers: { 'Content-Type': 'application/json', 'Retry-After': String(limit.retryAfter) }
+      });
+    }
+
+    const body = await req.json().catch(() => null);
+    const { lead, errors } = validateLead(body, locale);
+
+    if (!lead) {
+      return new Response(JSON.stringify({ error: translate(locale, 'lead.fixFields'), fieldErrors: errors }), {
+        status: 400,
+        headers: { 'Content-Type': 'application/json' }
+      });
+    }
+
+    const saved = await saveLead(lead);
+    await forwardLead(saved);
+
+    return new Response(JSON.stringify({ id: saved.id }), {
+      status: 201,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  } catch (error: any) {
+    console.error('Lead capture error:', error);
+    return new Response(JSON.stringify({ error: translate(locale, 'lead.failed') }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' }
+    });
+  }
+}
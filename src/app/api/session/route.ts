@@ -0,0 +1,18 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { redeemTransferToken, setSessionCookie } from '@/lib/session';
+
+// Continues a session from another device, given a transfer token from /api/session/transfer
+export async function POST(req: NextRequest) {
+  // A JSON body can't be sent cross-site without a preflight, so other sites
+  // can't switch a visitor's session with an auto-submitted form
+  if (!req.headers.get('content-type')?.includes('application/json')) {
+    return NextResponse.json({ error: 'Expected a JSON body' }, { status: 415 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const sessionId = await redeemTransferToken(body?.token);
+  if (!sessionId) {
+    return NextResponse.json({ error: 'This link has expired or was already used' }, { status: 400 });
+  }
+  return setSessionCookie(NextResponse.json({ ok: true }), sessionId);
+}
@@ -0,0 +1,9 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createTransferToken, resolveSession, setSessionCookie } from '@/lib/session';
+
+// Issues a single-use token that carries the visitor's session to another device
+export async function POST(req: NextRequest) {
+  const { sessionId, isNew } = resolveSession(req);
+  const res = NextResponse.json(createTransferToken(sessionId), { headers: { 'Cache-Control': 'no-store' } });
+  return isNew ? setSessionCookie(res, sessionId) : res;
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getClientIp, takeToken } from '@/lib/rate-limit';
+import { getSessionId } from '@/lib/session';
+import { createShare } from '@/lib/share-store';
+
+// The body only names the conversation; the content comes from the server store
+const MAX_BODY_BYTES = 2_000;
+
+// Body: { conversationId, leafUid? }, the conversation as synced for this session
+export async function POST(req: NextRequest) {
+  try {
+    const limit = await takeToken(`share:${getClientIp(req)}`, { capacity: 10, refillPerSecond: 10 / 3600 });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many share links created. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    const raw = await req.text();
+    if (Buffer.byteLength(raw) > MAX_BODY_BYTES) {
+      return NextResponse.json({ error: 'Invalid share request' }, { status: 413 });
+    }
+    let body: any = null;
+    try {
+      body = JSON.parse(raw);
+    } catch {
+      // Rejected below
+    }
+    if (typeof body?.conversationId !== 'string' || (body.leafUid !== undefined && typeof body.leafUid !== 'string')) {
+      return NextResponse.json({ error: 'conversationId is required' }, { status: 400 });
+    }
+
+    const sessionId = getSessionId(req);
+    const share = sessionId ? await createShare(sessionId, body.conversationId, body.leafUid) : null;
+    if (!share) {
+      return NextResponse.json({ error: 'This conversation has not been synced yet' }, { status: 404 });
+    }
+    return NextResponse.json({ id: share.id }, { status: 201 });
+  } catch (error: any) {
+    console.error('Share error:', error);
+    return NextResponse.json({ error: 'Failed to create share link' }, { status: 500 });
+  }
+}
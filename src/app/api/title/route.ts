@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ChatLimitError, checkDailyBudget, limitErrorResponse } from '@/lib/chat-limits';
+import { getClientIp, takeToken } from '@/lib/rate-limit';
+import { getSessionId } from '@/lib/session';
+import { generateTitle } from '@/lib/title-generator';
+
+// A title only needs the opening exchange
+const MAX_MESSAGES = 4;
+
+// Body: { messages: [{ role, content }], conversationId? }
+export async function POST(req: NextRequest) {
+  try {
+    const ip = getClientIp(req);
+    const limit = await takeToken(`title:${ip}`, { capacity: 20, refillPerSecond: 20 / 3600 });
+    if (!limit.allowed) {
+      return NextResponse.json(
+        { error: 'Too many requests. Please try again later.' },
+        { status: 429, headers: { 'Retry-After': String(limit.retryAfter) } }
+      );
+    }
+
+    const { messages, conversationId } = await req.json().catch(() => ({}));
+    const opening = Array.isArray(messages)
+      ? messages
+          .filter((msg: any) => (msg?.role === 'user' || msg?.role === 'assistant') && typeof msg.content === 'string')
+          .slice(0, MAX_MESSAGES)
+          .map((msg: any) => ({ role: msg.role as 'user' | 'assistant', content: msg.content as string }))
+      : [];
+
+    if (!opening.some(msg => msg.role === 'user')) {
+      return NextResponse.json({ error: 'A conversation with at least one user message is required' }, { status: 400 });
+    }
+
+    // Titles share the chat's daily token budget
+    const sessionKey = getSessionId(req) || `ip:${ip}`;
+    await checkDailyBudget(sessionKey, ip);
+
+    const title = await generateTitle(opening, {
+      conversationId: typeof conversationId === 'string' ? conversationId : undefined,
+      sessionKey,
+      ip,
+    });
+    if (!title) {
+      return NextResponse.json({ error: 'The model did not return a title' }, { status: 502 });
+    }
+    return NextResponse.json({ title }, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    if (error instanceof ChatLimitError) {
+      return limitErrorResponse(error);
+    }
+
+    console.error('Title generation error:', error);
+    return NextResponse.json(
+      { error: error?.message || 'Failed to generate title' },
+      { status: error?.status === 429 ? 429 : 500 }
+    );
+  }
+}
@@ -0,0 +1,28 @@
+import Chat from '@/components/Chat';
+import type { Metadata } from 'next';
+import I18nProvider from '@/components/I18nProvider';
+import { getRequestLocale } from '@/lib/locale';
+
+interface ConversationPageProps {
+  params: Promise<{ conversationId: string }>;
+}
+
+export const metadata: Metadata = {
+  title: 'Conversation',
+  robots: { index: false, follow: false },
+};
+
+/**
+ * Reopen a conversation by its id. Conversations live in the visitor's
+ * browser (and their synced session), so the page itself knows nothing about it.
+ */
+export default async function ConversationPage({ params }: ConversationPageProps) {
+  const { conversationId } = await params;
+  return (
+    <I18nProvider locale={await getRequestLocale()}>
+      <main role="main" aria-label="AuraXPro AI Chat Interface">
+        <Chat initialConversationId={conversationId} />
+      </main>
+    </I18nProvider>
+  );
+}
@@ -0,0 +1,30 @@
+import type { Metadata } from 'next';
+import ChatWidget from '@/components/ChatWidget';
+import I18nProvider from '@/components/I18nProvider';
+import { parseWidgetConfig } from '@/lib/widget';
+import { getRequestLocale } from '@/lib/locale';
+import { translate } from '@/lib/i18n';
+
+interface EmbedPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export const metadata: Metadata = {
+  title: 'Chat',
+  robots: { index: false, follow: false },
+};
+
+/**
+ * The chat panel framed by the embed loader (public/embed.js)
+ */
+export default async function EmbedPage({ searchParams }: EmbedPageProps) {
+  const config = parseWidgetConfig(await searchParams);
+  const locale = config.locale || await getRequestLocale();
+  return (
+    <I18nProvider locale={locale}>
+      <main role="main" aria-label={translate(locale, 'widget.label')}>
+        <ChatWidget config={config} />
+      </main>
+    </I18nProvider>
+  );
+}
@@ -1,6 +1,8 @@
 import type { Metadata } from 'next'
 import './globals.css'
 import StructuredData from '@/components/StructuredData'
+import { LOCALES, LOCALE_LANGUAGES, OPEN_GRAPH_LOCALES } from '@/lib/i18n'
+import { getRequestLocale } from '@/lib/locale'
 
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://auraxpro.com'
 const siteName = 'AuraXPro'
@@ -42,6 +44,7 @@ export const metadata: Metadata = {
   openGraph: {
     type: 'website',
     locale: 'en_US',
+    alternateLocale: LOCALES.filter(locale => locale !== 'en').map(locale => OPEN_GRAPH_LOCALES[locale]),
     url: siteUrl,
     siteName: siteName,
     title: defaultTitle,
@@ -103,7 +106,7 @@ const structuredData = [
     contactPoint: {
       '@type': 'ContactPoint',
       contactType: 'Customer Service',
-      availableLanguage: ['English'],
+      availableLanguage: LOCALES.map(locale => LOCALE_LANGUAGES[locale]),
     },
   },
   {
@@ -125,6 +128,7 @@ const structuredData = [
       'Multi-Conversation Support',
       'Real-time Streaming Responses',
       'Knowledge Base Integration',
+      'Multilingual: English, German, Japanese',
     ],
   },
   {
@@ -142,13 +146,13 @@ const structuredData = [
   },
 ]
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
   return (
-    <html lang="en">
+    <html lang={await getRequestLocale()}>
       <body>
         <StructuredData data={structuredData} />
         {children}
@@ -1,28 +1,40 @@
 import Chat from '@/components/Chat';
 import type { Metadata } from 'next';
+import I18nProvider from '@/components/I18nProvider';
+import { LOCALES, OPEN_GRAPH_LOCALES, translate } from '@/lib/i18n';
+import { getRequestLocale } from '@/lib/locale';
 
-export const metadata: Metadata = {
-  title: 'AuraXPro AI - Intelligent Development Assistant',
-  description: 'Chat with AuraXPro AI to learn about our full-stack web development services, 3D configurators, Shopify/WordPress customization, and AI-powered solutions. Get expert insights on Next.js, React Three Fiber, and modern web technologies.',
-  openGraph: {
-    title: 'AuraXPro AI - Intelligent Development Assistant',
-    description: 'Chat with AuraXPro AI to learn about our full-stack web development services, 3D configurators, Shopify/WordPress customization, and AI-powered solutions.',
-    type: 'website',
-  },
-  twitter: {
-    card: 'summary_large_image',
-    title: 'AuraXPro AI - Intelligent Development Assistant',
-    description: 'Chat with AuraXPro AI to learn about our full-stack web development services, 3D configurators, Shopify/WordPress customization, and AI-powered solutions.',
-  },
-  alternates: {
-    canonical: '/',
-  },
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const locale = await getRequestLocale();
+  const title = translate(locale, 'meta.title');
+  const description = translate(locale, 'meta.description');
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: 'website',
+      locale: OPEN_GRAPH_LOCALES[locale],
+      alternateLocale: LOCALES.filter(code => code !== locale).map(code => OPEN_GRAPH_LOCALES[code]),
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description,
+    },
+    alternates: {
+      canonical: '/',
+    },
+  };
+}
 
-export default function Home() {
+export default async function Home() {
   return (
-    <main role="main" aria-label="AuraXPro AI Chat Interface">
-      <Chat />
-    </main>
+    <I18nProvider locale={await getRequestLocale()}>
+      <main role="main" aria-label="AuraXPro AI Chat Interface">
+        <Chat />
+      </main>
+    </I18nProvider>
   );
 }
@@ -0,0 +1,52 @@
+import { ImageResponse } from 'next/og';
+import { loadKnowledge } from '@/lib/retrieval';
+import { findProjectBySlug, projectStack } from '@/lib/projects';
+
+export const alt = 'AuraXPro project';
+export const size = { width: 1200, height: 630 };
+export const contentType = 'image/png';
+
+export async function generateStaticParams() {
+  const { projects } = await loadKnowledge();
+  return projects.map(project => ({ slug: project.slug }));
+}
+
+/**
+ * Social preview card with the project's name, category and stack
+ */
+export default async function Image({ params }: { params: Promise<{ slug: string }> }) {
+  const { slug } = await params;
+  const { projects } = await loadKnowledge();
+  const project = findProjectBySlug(projects, slug);
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: '100%',
+          height: '100%',
+          display: 'flex',
+          flexDirection: 'column',
+          justifyContent: 'space-between',
+          padding: 72,
+          background: '#171717',
+          color: '#ffffff',
+        }}
+      >
+        <div style={{ fontSize: 28, color: '#9ca3af' }}>{`AuraXPro • ${project?.category || 'Portfolio'}`}</div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 24 }}>
+          <div style={{ fontSize: 72, fontWeight: 700 }}>{project?.name || 'AuraXPro Portfolio'}</div>
+          {project && <div style={{ fontSize: 32, color: '#d1d5db' }}>{project.goal_summary}</div>}
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 12 }}>
+          {(project ? projectStack(project).slice(0, 6) : []).map(tech => (
+            <div key={tech} style={{ fontSize: 24, padding: '6px 18px', borderRadius: 999, border: '2px solid #374151', color: '#d1d5db' }}>
+              {tech}
+            </div>
+          ))}
+        </div>
+      </div>
+    ),
+    size
+  );
+}
@@ -0,0 +1,153 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import StructuredData from '@/components/StructuredData';
+import { loadKnowledge } from '@/lib/retrieval';
+import { portfolioPath, projectStructuredData } from '@/lib/portfolio';
+import { findProjectBySlug, projectStack } from '@/lib/projects';
+
+interface PortfolioProjectPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+async function findProject(slug: string) {
+  const { projects } = await loadKnowledge();
+  return findProjectBySlug(projects, slug);
+}
+
+export async function generateStaticParams() {
+  const { projects } = await loadKnowledge();
+  return projects.map(project => ({ slug: project.slug }));
+}
+
+export async function generateMetadata({ params }: PortfolioProjectPageProps): Promise<Metadata> {
+  const project = await findProject((await params).slug);
+  if (!project) {
+    return { title: 'Project not found' };
+  }
+  const title = project.category ? `${project.name} — ${project.category}` : project.name;
+  return {
+    title,
+    description: project.goal_summary,
+    keywords: [...project.tags, ...projectStack(project)],
+    openGraph: {
+      title,
+      description: project.goal_summary,
+      type: 'article',
+      url: portfolioPath(project),
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: project.goal_summary,
+    },
+    alternates: {
+      canonical: portfolioPath(project),
+    },
+  };
+}
+
+function Section({ title, items }: { title: string; items?: string[] }) {
+  if (!items || items.length === 0) return null;
+  return (
+    <section>
+      <h2 className="text-xs font-semibold text-gray-400 uppercase mb-2">{title}</h2>
+      <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+        {items.map(item => <li key={item}>{item}</li>)}
+      </ul>
+    </section>
+  );
+}
+
+/**
+ * Statically generated case study for one project
+ */
+export default async function PortfolioProjectPage({ params }: PortfolioProjectPageProps) {
+  const project = await findProject((await params).slug);
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <div className="min-h-screen bg-[#171717] text-white">
+      <StructuredData data={projectStructuredData(project)} />
+      <header className="border-b border-gray-700 px-4 py-3 flex items-center justify-between">
+        <Link href="/" className="flex items-center gap-2">
+          <Image src="/brand.png" alt="Logo" width={128} height={51} />
+        </Link>
+        <Link href="/portfolio" className="text-sm text-gray-300 hover:text-white transition-colors">
+          All projects
+        </Link>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          {project.category && (
+            <p className="text-xs text-gray-500 uppercase tracking-wide">
+              <Link href={`/portfolio?category=${encodeURIComponent(project.category)}`} className="hover:text-gray-300">
+                {project.category}
+              </Link>
+            </p>
+          )}
+          <h1 className="text-3xl font-semibold mt-1">{project.name}</h1>
+          <p className="text-sm text-gray-400 mt-1">
+            {[
+              project.client_name,
+              project.status.replace(/_/g, ' '),
+              project.start_date && `since ${project.start_date}`,
+              project.timeline,
+            ].filter(Boolean).join(' • ')}
+          </p>
+        </div>
+
+        <p className="text-gray-300">{project.goal_summary}</p>
+        {project.experience && <p className="text-sm text-gray-400">{project.experience}</p>}
+
+        <section>
+          <h2 className="text-xs font-semibold text-gray-400 uppercase mb-2">Stack</h2>
+          <div className="flex flex-wrap gap-1.5">
+            {projectStack(project).map(tech => (
+              <Link
+                key={tech}
+                href={`/portfolio?stack=${encodeURIComponent(tech)}`}
+                className="px-2 py-0.5 rounded-full bg-gray-800 border border-gray-700 text-xs text-gray-300 hover:text-white"
+              >
+                {tech}
+              </Link>
+            ))}
+          </div>
+        </section>
+
+        <Section title="Core Features" items={project.core_features} />
+        <Section title="Challenges" items={project.challenges} />
+        <Section title="Solutions" items={project.solutions} />
+        <Section title="Development Flow" items={project.development_flow} />
+        <Section title="Integrations" items={project.integrations} />
+
+        {project.unique_value && (
+          <p className="text-sm text-gray-400">
+            <span className="font-semibold text-gray-300">Unique value:</span> {project.unique_value}
+          </p>
+        )}
+
+        {project.tags.length > 0 && (
+          <div className="flex flex-wrap gap-1.5">
+            {project.tags.map(tag => (
+              <Link key={tag} href={`/portfolio?tag=${encodeURIComponent(tag)}`} className="text-xs text-gray-500 hover:text-gray-300">
+                #{tag}
+              </Link>
+            ))}
+          </div>
+        )}
+
+        <Link
+          href={`/projects/${project.slug}`}
+          className="inline-block px-4 py-2.5 rounded-lg bg-white text-gray-900 text-sm font-medium hover:bg-gray-200 transition-colors"
+        >
+          Ask about this project
+        </Link>
+      </main>
+    </div>
+  );
+}
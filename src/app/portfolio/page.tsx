@@ -0,0 +1,131 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { loadKnowledge } from '@/lib/retrieval';
+import { PortfolioFilters, filterProjects, portfolioFacets, portfolioPath } from '@/lib/portfolio';
+import { projectStack } from '@/lib/projects';
+
+interface PortfolioPageProps {
+  searchParams: Promise<Record<string, string | string[] | undefined>>;
+}
+
+export const metadata: Metadata = {
+  title: 'Portfolio',
+  description: 'Projects built by AuraXPro: 3D configurators, AI assistants and full-stack web applications, with the stack and challenges behind each one.',
+  openGraph: {
+    title: 'AuraXPro Portfolio',
+    description: 'Projects built by AuraXPro: 3D configurators, AI assistants and full-stack web applications.',
+    type: 'website',
+  },
+  alternates: {
+    canonical: '/portfolio',
+  },
+};
+
+const FILTER_KEYS = ['category', 'stack', 'tag'] as const;
+
+function readFilters(params: Record<string, string | string[] | undefined>): PortfolioFilters {
+  const filters: PortfolioFilters = {};
+  for (const key of FILTER_KEYS) {
+    const value = params[key];
+    const first = Array.isArray(value) ? value[0] : value;
+    if (first) filters[key] = first;
+  }
+  return filters;
+}
+
+/**
+ * Link to the index with one filter set (or cleared when it is already active)
+ */
+function filterHref(filters: PortfolioFilters, key: keyof PortfolioFilters, value: string): string {
+  const next = { ...filters, [key]: filters[key] === value ? undefined : value };
+  const query = new URLSearchParams(
+    Object.entries(next).filter((entry): entry is [string, string] => Boolean(entry[1]))
+  ).toString();
+  return query ? `/portfolio?${query}` : '/portfolio';
+}
+
+function FilterRow({ label, filterKey, values, filters }: {
+  label: string;
+  filterKey: keyof PortfolioFilters;
+  values: string[];
+  filters: PortfolioFilters;
+}) {
+  if (values.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      <span className="w-20 text-xs font-semibold text-gray-400 uppercase">{label}</span>
+      {values.map(value => (
+        <Link
+          key={value}
+          href={filterHref(filters, filterKey, value)}
+          className={`px-2 py-0.5 rounded-full border text-xs transition-colors ${
+            filters[filterKey] === value
+              ? 'bg-white text-gray-900 border-white'
+              : 'bg-gray-800 border-gray-700 text-gray-300 hover:text-white'
+          }`}
+        >
+          {value}
+        </Link>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Server-rendered project index, filterable by category, stack and tag
+ * through the query string so every filtered view is a crawlable link
+ */
+export default async function PortfolioPage({ searchParams }: PortfolioPageProps) {
+  const filters = readFilters(await searchParams);
+  const { projects } = await loadKnowledge();
+  const facets = portfolioFacets(projects);
+  const shown = filterProjects(projects, filters);
+
+  return (
+    <div className="min-h-screen bg-[#171717] text-white">
+      <header className="border-b border-gray-700 px-4 py-3 flex items-center justify-between">
+        <Link href="/" className="flex items-center gap-2">
+          <Image src="/brand.png" alt="Logo" width={128} height={51} />
+        </Link>
+        <Link
+          href="/"
+          className="px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+        >
+          Chat with AuraXPro AI
+        </Link>
+      </header>
+
+      <main className="max-w-5xl mx-auto px-4 py-8 space-y-6">
+        <h1 className="text-3xl font-semibold">Portfolio</h1>
+
+        <nav className="space-y-2" aria-label="Filter projects">
+          <FilterRow label="Category" filterKey="category" values={facets.categories} filters={filters} />
+          <FilterRow label="Stack" filterKey="stack" values={facets.stacks} filters={filters} />
+          <FilterRow label="Tags" filterKey="tag" values={facets.tags} filters={filters} />
+        </nav>
+
+        {shown.length === 0 ? (
+          <p className="text-sm text-gray-400">
+            No projects match these filters. <Link href="/portfolio" className="underline hover:text-white">Show all projects</Link>
+          </p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {shown.map(project => (
+              <Link
+                key={project.project_id}
+                href={portfolioPath(project)}
+                className="block rounded-2xl border border-gray-700 bg-[#212121] p-5 hover:border-gray-500 transition-colors"
+              >
+                {project.category && <p className="text-xs text-gray-500 uppercase tracking-wide">{project.category}</p>}
+                <h2 className="text-lg font-semibold mt-1">{project.name}</h2>
+                <p className="text-sm text-gray-400 mt-2 line-clamp-3">{project.goal_summary}</p>
+                <p className="text-xs text-gray-500 mt-3 truncate">{projectStack(project).join(' • ')}</p>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import Chat from '@/components/Chat';
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import { findProjectBySlug } from '@/lib/projects';
+import { loadKnowledge } from '@/lib/retrieval';
+import I18nProvider from '@/components/I18nProvider';
+import { getRequestLocale } from '@/lib/locale';
+
+interface ProjectPageProps {
+  params: Promise<{ slug: string }>;
+}
+
+async function findProject(slug: string) {
+  const { projects } = await loadKnowledge();
+  return findProjectBySlug(projects, slug);
+}
+
+export async function generateMetadata({ params }: ProjectPageProps): Promise<Metadata> {
+  const project = await findProject((await params).slug);
+  if (!project) {
+    return { title: 'Project not found' };
+  }
+  const title = `Ask about ${project.name}`;
+  return {
+    title,
+    description: project.goal_summary,
+    openGraph: {
+      title,
+      description: project.goal_summary,
+      type: 'website',
+    },
+    twitter: {
+      card: 'summary_large_image',
+      title,
+      description: project.goal_summary,
+    },
+    alternates: {
+      canonical: `/projects/${project.slug}`,
+    },
+  };
+}
+
+/**
+ * The chat, opened on one project's conversation. Links like
+ * /projects/vr-room-planner take a prospect straight into that project.
+ */
+export default async function ProjectPage({ params }: ProjectPageProps) {
+  const project = await findProject((await params).slug);
+  if (!project) {
+    notFound();
+  }
+
+  return (
+    <I18nProvider locale={await getRequestLocale()}>
+      <main role="main" aria-label={`AuraXPro AI Chat about ${project.name}`}>
+        <Chat initialProject={project} />
+      </main>
+    </I18nProvider>
+  );
+}
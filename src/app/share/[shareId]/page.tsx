@@ -0,0 +1,86 @@
+import type { Metadata } from 'next';
+import Image from 'next/image';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import ReactMarkdown from 'react-markdown';
+import { conversationTitle } from '@/lib/conversation-export';
+import { getShare } from '@/lib/share-store';
+import { getRequestLocale } from '@/lib/locale';
+import { translate } from '@/lib/i18n';
+
+interface SharePageProps {
+  params: Promise<{ shareId: string }>;
+}
+
+export async function generateMetadata({ params }: SharePageProps): Promise<Metadata> {
+  const share = await getShare((await params).shareId);
+  return {
+    title: share ? conversationTitle(share.conversation) : translate(await getRequestLocale(), 'share.pageTitle'),
+    robots: { index: false, follow: false },
+  };
+}
+
+export default async function SharePage({ params }: SharePageProps) {
+  const share = await getShare((await params).shareId);
+  if (!share) {
+    notFound();
+  }
+
+  const { conversation } = share;
+  const locale = await getRequestLocale();
+
+  return (
+    <div className="min-h-screen bg-[#171717] text-white">
+      <header className="border-b border-gray-700 px-4 py-3 flex items-center justify-between">
+        <Link href="/" className="flex items-center gap-2">
+          <Image src="/brand.png" alt="Logo" width={128} height={51} />
+        </Link>
+        <Link
+          href="/"
+          className="px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+        >
+          {translate(locale, 'share.startChat')}
+        </Link>
+      </header>
+
+      <main className="max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-xl font-semibold">{conversationTitle(conversation)}</h1>
+          <p className="text-xs text-gray-500 mt-1">
+            {translate(locale, 'share.sharedWith')} • {new Date(share.createdAt).toLocaleDateString(locale, { dateStyle: 'medium' })}
+            {conversation.project ? ` • ${conversation.project.name}` : ''}
+          </p>
+        </div>
+
+        {conversation.messages.map((message, i) => (
+          <article key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl px-4 py-3 text-sm break-words ${
+              message.role === 'user' ? 'bg-white text-gray-900 whitespace-pre-wrap' : 'bg-gray-800 text-gray-100'
+            }`}>
+              {message.role === 'assistant' ? (
+                <ReactMarkdown
+                  components={{
+                    p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                    ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
+                    ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1">{children}</ol>,
+                    code: ({ children }) => <code className="bg-gray-700 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>,
+                    pre: ({ children }) => <pre className="bg-gray-700 p-3 rounded mb-2 overflow-x-auto">{children}</pre>,
+                  }}
+                >
+                  {message.content}
+                </ReactMarkdown>
+              ) : (
+                message.content
+              )}
+              {message.citations && message.citations.length > 0 && (
+                <p className="mt-2 text-xs text-gray-400">
+                  {translate(locale, 'messages.sources')}: {message.citations.map(c => `[${c.marker}] ${c.title}`).join(', ')}
+                </p>
+              )}
+            </div>
+          </article>
+        ))}
+      </main>
+    </div>
+  );
+}
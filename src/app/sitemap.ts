@@ -1,9 +1,12 @@
 import { MetadataRoute } from 'next'
+import { loadKnowledge } from '@/lib/retrieval'
+import { portfolioPath } from '@/lib/portfolio'
 
 const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://auraxpro.com'
 
-export default function sitemap(): MetadataRoute.Sitemap {
+export default async function sitemap(): Promise<MetadataRoute.Sitemap> {
   const baseUrl = siteUrl
+  const { projects } = await loadKnowledge()
 
   return [
     {
@@ -12,16 +15,24 @@ export default function sitemap(): MetadataRoute.Sitemap {
       changeFrequency: 'weekly',
       priority: 1,
     },
-    // Add more routes here as your application grows
-    // Example:
-    // {
-    //   url: `${baseUrl}/about`,
-    //   lastModified: new Date(),
-    //   changeFrequency: 'monthly',
-    //   priority: 0.8,
-    // },
+    {
+      url: `${baseUrl}/portfolio`,
+      lastModified: new Date(),
+      changeFrequency: 'weekly',
+      priority: 0.9,
+    },
+    ...projects.map(project => ({
+      url: `${baseUrl}${portfolioPath(project)}`,
+      lastModified: new Date(),
+      changeFrequency: 'monthly' as const,
+      priority: 0.8,
+    })),
+    // One chat entry point per project (/projects/[slug])
+    ...projects.map(project => ({
+      url: `${baseUrl}/projects/${project.slug}`,
+      lastModified: new Date(),
+      changeFrequency: 'monthly' as const,
+      priority: 0.7,
+    })),
   ]
 }
-
-
-
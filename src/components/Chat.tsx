@@ -1,112 +1,153 @@
 'use client';
 
 import { useEffect, useRef, useState } from 'react';
-import { loadKB, kbToContext } from '@/lib/kb';
+import { Project, fetchProjects, findConversationProject, projectConversationId } from '@/lib/projects';
 import {
   ChatMessage,
-  saveMessage,
   loadConversation,
-  clearConversation,
+  loadBranch,
+  deleteConversation,
   listConversationsWithMetadata,
-  getRecentMessages,
+  getConversationMetadata,
+  importConversation,
   migrateFromLocalStorage,
+  searchConversations,
+  setConversationPinned,
+  setConversationTitle,
+  ConversationRecord,
+  ConversationSearchResult,
 } from '@/lib/conversation-db';
+import { buildConversationExport, parseConversationExport } from '@/lib/conversation-export';
+import {
+  adoptSession,
+  deleteRemoteConversation,
+  getSessionLink,
+  isServerSyncAvailable,
+  pullConversations,
+  pushConversation,
+} from '@/lib/conversation-sync';
 import Image from 'next/image';
-import { ChevronLeftIcon, ChevronRightIcon, TrashIcon, UserIcon } from 'lucide-react';
+import { ChevronLeftIcon, ChevronRightIcon, PencilIcon, PinIcon, PinOffIcon, RefreshCwIcon, SquareIcon, TrashIcon, UserIcon } from 'lucide-react';
 import Link from 'next/link';
 import ReactMarkdown from 'react-markdown';
+import ProjectCard from '@/components/ProjectCard';
+import LeadForm from '@/components/LeadForm';
+import ProjectBriefView from '@/components/ProjectBriefView';
+import ExportMenu from '@/components/ExportMenu';
+import type { ProjectBrief } from '@/lib/brief';
+import { useChatSession } from '@/hooks/useChatSession';
+import { LanguageSwitcher, useI18n } from '@/components/I18nProvider';
+
+/**
+ * Render text with every occurrence of the search query highlighted
+ */
+function Highlight({ text, query }: { text: string; query: string }) {
+  const needle = query.trim();
+  if (!needle) return <>{text}</>;
+  const escaped = needle.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  // Splitting on a capture group puts the matches at the odd indexes
+  const parts = text.split(new RegExp(`(${escaped})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-yellow-500/30 text-white rounded-sm">{part}</mark> : part
+      )}
+    </>
+  );
+}
+
+/**
+ * Reflect what the chat shows in the address bar, so it can be bookmarked or
+ * sent to someone. Replaces the entry: the chat doesn't react to back/forward.
+ */
+function showPath(path: string) {
+  if (window.location.pathname !== path) {
+    window.history.replaceState(null, '', path + window.location.search);
+  }
+}
 
-interface Project {
-  project_id: string;
-  name: string;
-  slug: string;
-  category: string;
-  client_name: string;
-  status: string;
-  start_date: string;
-  budget: string;
-  team_members: string[];
-  frontend_stack: string[];
-  backend_stack: string[];
-  integrations: string[];
-  deployment: string;
-  goal_summary: string;
-  core_features: string[];
-  target_users: string;
-  unique_value: string;
-  challenges: string[];
-  solutions: string[];
-  experience?: string;
-  lessons_learned: string;
-  communication_tools: string[];
-  update_frequency: string;
-  conversation_id: string;
-  tags: string[];
-  ai_context_note: string;
+function conversationPath(conversationId: string, project?: Project | null): string {
+  return project ? `/projects/${project.slug}` : `/c/${encodeURIComponent(conversationId)}`;
 }
 
-interface ConversationListItem {
-  conversationId: string;
-  messageCount: number;
-  lastActivity: number;
-  firstMessage?: string;
+interface ChatProps {
+  /** Open this project's conversation on load (/projects/[slug]) */
+  initialProject?: Project;
+  /** Reopen this conversation on load (/c/[conversationId]) */
+  initialConversationId?: string;
 }
 
-export default function Chat() {
-  const [kbCtx, setKbCtx] = useState<string>('');
-  const [messages, setMessages] = useState<ChatMessage[]>([]);
+export default function Chat({ initialProject, initialConversationId }: ChatProps = {}) {
   const [input, setInput] = useState('');
-  const [loading, setLoading] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(true);
   const [projects, setProjects] = useState<Project[]>([]);
   const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [currentConversationId, setCurrentConversationId] = useState<string | null>(null);
-  const [conversations, setConversations] = useState<ConversationListItem[]>([]);
+  const [conversations, setConversations] = useState<ConversationRecord[]>([]);
+  const [cardProject, setCardProject] = useState<Project | null>(null);
+  const [brief, setBrief] = useState<ProjectBrief | null>(null);
+  const [briefLoading, setBriefLoading] = useState(false);
+  const [syncAvailable, setSyncAvailable] = useState(true);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<ConversationSearchResult[] | null>(null);
+  const [renaming, setRenaming] = useState<{ conversationId: string; value: string } | null>(null);
+  const [editing, setEditing] = useState<{ uid: string; value: string } | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const { locale, messages: strings, t } = useI18n();
+
+  const chat = useChatSession(currentConversationId, {
+    projectId: selectedProject?.project_id,
+    locale,
+    onStored: async (conversationId) => {
+      await refreshConversations();
+      void generateTitleIfNeeded(conversationId);
+    },
+  });
+  const { messages, siblings, loading } = chat;
 
-  // Initialize: Load KB, projects, and run migration
+  // Initialize: Load projects and run migration
   useEffect(() => {
     (async () => {
       // Run migration from localStorage if needed
       await migrateFromLocalStorage();
-      
-      // Load knowledge base
-      const kb = await loadKB();
-      setKbCtx(kbToContext(kb));
-      
-      // Load experience/projects
-      try {
-        const res = await fetch('/experience.json');
-        const data = await res.json();
-        setProjects(Array.isArray(data) ? data : []);
-      } catch (error) {
-        console.error('Failed to load experience data:', error);
-        // Fallback to projects.json if experience.json fails
-        try {
-          const res = await fetch('/projects.json');
-          const data = await res.json();
-          // Transform old format to new format if needed
-          setProjects(data.projects || []);
-        } catch (fallbackError) {
-          console.error('Failed to load projects:', fallbackError);
+
+      // Continue a session from another device, then pull server conversations.
+      // Only after the visitor confirms: a link alone must never switch sessions.
+      const params = new URLSearchParams(window.location.search);
+      const transferToken = params.get('transfer');
+      if (transferToken) {
+        params.delete('transfer');
+        const query = params.toString();
+        window.history.replaceState(null, '', window.location.pathname + (query ? `?${query}` : ''));
+        if (confirm(t('alert.transferConfirm')) && !(await adoptSession(transferToken))) {
+          alert(t('alert.transferFailed'));
         }
       }
-      
+      await pullConversations();
+      setSyncAvailable(isServerSyncAvailable());
+
+      // Load the project catalog
+      const loadedProjects = await fetchProjects();
+      setProjects(loadedProjects);
+
       // Load conversations list
       await refreshConversations();
+
+      // Deep links
+      if (initialProject) {
+        await handleProjectSelect(initialProject);
+      } else if (initialConversationId) {
+        if (await getConversationMetadata(initialConversationId)) {
+          await handleConversationSelect(initialConversationId, loadedProjects);
+        } else {
+          // Not on this device (or deleted): start over instead of showing an empty chat
+          showPath('/');
+        }
+      }
     })();
   }, []);
 
-  // Load messages when conversationId changes
-  useEffect(() => {
-    if (currentConversationId) {
-      loadConversation(currentConversationId).then(setMessages);
-    } else {
-      setMessages([]);
-    }
-  }, [currentConversationId]);
-
   // Auto-scroll to bottom when messages change
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -117,10 +158,59 @@ export default function Chat() {
     setConversations(convos);
   };
 
+  // Search message content as the visitor types (debounced)
+  useEffect(() => {
+    if (!searchQuery.trim()) {
+      setSearchResults(null);
+      return;
+    }
+    const timer = setTimeout(() => {
+      searchConversations(searchQuery).then(setSearchResults);
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [searchQuery, conversations]);
+
+  /**
+   * Name a conversation once, after its first complete exchange. Failures are
+   * ignored: the sidebar falls back to the first message.
+   */
+  const generateTitleIfNeeded = async (conversationId: string) => {
+    if ((await getConversationMetadata(conversationId))?.title) return;
+    const conversation = (await loadConversation(conversationId)).filter(m => m.role !== 'system');
+    const userTurns = conversation.filter(m => m.role === 'user').length;
+    if (userTurns !== 1 || conversation[conversation.length - 1]?.status !== 'complete') return;
+
+    try {
+      const res = await fetch('/api/title', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          conversationId,
+          messages: conversation.map(({ role, content }) => ({ role, content })),
+        }),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.title) return;
+      await setConversationTitle(conversationId, data.title, { generated: true });
+      await refreshConversations();
+    } catch (error) {
+      console.error('Failed to generate conversation title:', error);
+    }
+  };
+
+  const conversationLabel = (conv: ConversationRecord): string => {
+    if (conv.title) return conv.title;
+    if (conv.firstMessage) {
+      return conv.firstMessage.substring(0, 30) + (conv.firstMessage.length > 30 ? '...' : '');
+    }
+    const project = findConversationProject(projects, conv.conversationId);
+    if (project) return project.name;
+    return t(conv.conversationId.startsWith('project-') ? 'conversation.projectChat' : 'conversation.newChat');
+  };
+
   const getConversationId = (): string => {
     if (selectedProject) {
-      // Use conversation_id from experience.json if available, otherwise generate from project_id
-      return selectedProject.conversation_id || `project-${selectedProject.project_id}`;
+      return projectConversationId(selectedProject);
     }
     if (currentConversationId) {
       return currentConversationId;
@@ -136,447 +226,181 @@ export default function Chat() {
   }, [input]);
 
   const startNewChat = async () => {
-    setMessages([]);
     setSelectedProject(null);
     setCurrentConversationId(`conversation-${Date.now()}`);
+    showPath('/');
     await refreshConversations();
   };
 
   const handleProjectSelect = async (project: Project) => {
     setSelectedProject(project);
-    // Use conversation_id from experience.json if available
-    const conversationId = project.conversation_id || `project-${project.project_id}`;
+    const conversationId = projectConversationId(project);
     setCurrentConversationId(conversationId);
+    showPath(conversationPath(conversationId, project));
     // Load existing messages for this project
-    const existingMessages = await loadConversation(conversationId);
-    setMessages(existingMessages);
+    const existingMessages = await chat.open(conversationId);
     await refreshConversations();
     
     // If this is a new conversation (no existing messages), auto-start with initial message
     if (existingMessages.length === 0) {
-      const initialMessage = "Could you explain about this project in more detail, As I am a new client, I want to know about this project.";
-      
-      // Create and save user message
-      const userMsg: ChatMessage = {
-        conversationId: conversationId,
-        role: 'user',
-        content: initialMessage,
-        ts: Date.now(),
-      };
-      
-      await saveMessage(userMsg);
-      setMessages([userMsg]);
-      setLoading(true);
-
-      try {
-        const projectContext = getProjectContext(project);
-        const fullContext = kbCtx + (projectContext ? '\n\n' + projectContext : '');
-
-        // Get recent messages for context (should just be the user message)
-        const recentMessages = await getRecentMessages(conversationId, 50);
-        const messagesForAPI = recentMessages.map(({ role, content }) => ({ role, content }));
-
-        const res = await fetch('/api/chat', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({
-            messages: messagesForAPI,
-            kbContext: fullContext
-          })
-        });
-
-        if (!res.ok) {
-          let errorMessage = 'Failed to get response';
-          try {
-            const error = await res.json();
-            errorMessage = error.error || errorMessage;
-          } catch {
-            errorMessage = await res.text().catch(() => errorMessage);
-          }
-          throw new Error(errorMessage);
-        }
-
-        if (!res.body) {
-          throw new Error('No response body');
-        }
-
-        const reader = res.body.getReader();
-        const decoder = new TextDecoder();
-        let acc = '';
-
-        const assistantMsg: ChatMessage = {
-          conversationId: conversationId,
-          role: 'assistant',
-          content: '',
-          ts: Date.now(),
-        };
-        setMessages(m => [...m, assistantMsg]);
-
-        while (true) {
-          const { value, done } = await reader.read();
-          if (done) break;
-
-          acc += decoder.decode(value, { stream: true });
-
-          setMessages(m => {
-            const copy = [...m];
-            copy[copy.length - 1] = {
-              ...assistantMsg,
-              content: acc,
-            };
-            return copy;
-          });
-        }
-
-        // Save complete assistant message
-        await saveMessage({
-          conversationId: conversationId,
-          role: 'assistant',
-          content: acc,
-          ts: Date.now(),
-        });
-        await refreshConversations();
-      } catch (error: any) {
-        let errorMessage = 'Something went wrong. Please try again.';
-
-        if (error.message) {
-          errorMessage = error.message;
-        }
-
-        const errorMsg: ChatMessage = {
-          conversationId: conversationId,
-          role: 'assistant',
-          content: `❌ **Error:** ${errorMessage}\n\nIf this is a quota or billing issue, please check your OpenAI account settings.`,
-          ts: Date.now(),
-        };
-        setMessages(m => [...m, errorMsg]);
-        await saveMessage(errorMsg);
-      } finally {
-        setLoading(false);
-      }
+      await chat.send(t('conversation.projectIntro'), { conversationId, projectId: project.project_id });
     }
   };
 
-  const handleConversationSelect = async (conversationId: string) => {
+  const handleConversationSelect = async (conversationId: string, projectList: Project[] = projects) => {
     setCurrentConversationId(conversationId);
-    // Try to find matching project by conversation_id
-    const project = projects.find(p => p.conversation_id === conversationId);
-    if (project) {
-      setSelectedProject(project);
-    } else if (conversationId.startsWith('project-')) {
-      // Fallback: try to find by project_id
-      const projectId = conversationId.replace('project-', '');
-      const foundProject = projects.find(p => p.project_id === projectId);
-      if (foundProject) {
-        setSelectedProject(foundProject);
-      } else {
-        setSelectedProject(null);
-      }
-    } else {
-      setSelectedProject(null);
-    }
-    const existingMessages = await loadConversation(conversationId);
-    setMessages(existingMessages);
+    const project = findConversationProject(projectList, conversationId) || null;
+    setSelectedProject(project);
+    showPath(conversationPath(conversationId, project));
+    await chat.open(conversationId);
   };
 
   const handleDeleteConversation = async (conversationId: string, e: React.MouseEvent) => {
     e.stopPropagation();
-    if (confirm('Delete this conversation?')) {
-      await clearConversation(conversationId);
+    if (confirm(t('conversation.confirmDelete'))) {
+      await deleteConversation(conversationId);
+      await deleteRemoteConversation(conversationId);
       if (currentConversationId === conversationId) {
-        setMessages([]);
         setCurrentConversationId(null);
         setSelectedProject(null);
+        showPath('/');
       }
       await refreshConversations();
     }
   };
 
-  const getProjectContext = (project: Project | null): string => {
-    if (!project) return '';
-    
-    const allStack = [...(project.frontend_stack || []), ...(project.backend_stack || [])];
-    const stackDisplay = allStack.length > 0 ? allStack.join(', ') : 'N/A';
-    
-    return `
-Project Name: ${project.name}
-Category: ${project.category}
-Client: ${project.client_name}
-Status: ${project.status}
-Start Date: ${project.start_date}
-Budget: ${project.budget}
-
-Goal: ${project.goal_summary}
-
-Experience: ${project.experience || 'N/A'}
-
-Team Members: ${project.team_members?.join(', ') || 'N/A'}
-Frontend Stack: ${project.frontend_stack?.join(', ') || 'N/A'}
-Backend Stack: ${project.backend_stack?.join(', ') || 'N/A'}
-Integrations: ${project.integrations?.join(', ') || 'N/A'}
-Deployment: ${project.deployment || 'N/A'}
-
-Core Features:
-${project.core_features?.map(f => `- ${f}`).join('\n') || 'N/A'}
-
-Target Users: ${project.target_users || 'N/A'}
-Unique Value: ${project.unique_value || 'N/A'}
-
-Challenges:
-${project.challenges?.map(c => `- ${c}`).join('\n') || 'N/A'}
-
-Solutions:
-${project.solutions?.map(s => `- ${s}`).join('\n') || 'N/A'}
-
-Lessons Learned: ${project.lessons_learned || 'N/A'}
-
-Communication: ${project.communication_tools?.join(', ') || 'N/A'}
-Update Frequency: ${project.update_frequency || 'N/A'}
-Tags: ${project.tags?.join(', ') || 'N/A'}
-
-AI Context Note: ${project.ai_context_note || 'N/A'}
-`;
-  };
-
-  async function ask() {
-    if (!input.trim() || loading) return;
+  /**
+   * Send a question in the current conversation, starting one if needed
+   */
+  const sendMessage = async (content: string) => {
+    if (!content.trim() || loading) return;
 
     // Ensure we have a conversationId
     const conversationId = getConversationId();
     if (!currentConversationId) {
       setCurrentConversationId(conversationId);
     }
-
-    const userMessage = input.trim();
-    const userMsg: ChatMessage = {
-      conversationId: conversationId,
-      role: 'user',
-      content: userMessage,
-      ts: Date.now(),
-    };
-    
-    // Save user message immediately
-    await saveMessage(userMsg);
-    const next = [...messages, userMsg];
-    setMessages(next);
+    showPath(conversationPath(conversationId, selectedProject));
     setInput('');
-    setLoading(true);
-
-    try {
-      const projectContext = getProjectContext(selectedProject);
-      const fullContext = kbCtx + (projectContext ? '\n\n' + projectContext : '');
-
-      // Get recent messages for context (last 50)
-      const recentMessages = await getRecentMessages(conversationId, 50);
-      const messagesForAPI = recentMessages.map(({ role, content }) => ({ role, content }));
-
-      const res = await fetch('/api/chat', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          messages: messagesForAPI,
-          kbContext: fullContext
-        })
-      });
-
-      if (!res.ok) {
-        let errorMessage = 'Failed to get response';
-        try {
-          const error = await res.json();
-          errorMessage = error.error || errorMessage;
-        } catch {
-          errorMessage = await res.text().catch(() => errorMessage);
-        }
-        throw new Error(errorMessage);
-      }
-
-      if (!res.body) {
-        throw new Error('No response body');
-      }
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let acc = '';
-
-      const assistantMsg: ChatMessage = {
-        conversationId: conversationId,
-        role: 'assistant',
-        content: '',
-        ts: Date.now(),
-      };
-      setMessages(m => [...m, assistantMsg]);
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-
-        acc += decoder.decode(value, { stream: true });
-
-        setMessages(m => {
-          const copy = [...m];
-          copy[copy.length - 1] = {
-            ...assistantMsg,
-            content: acc,
-          };
-          return copy;
-        });
-      }
+    await chat.send(content, { conversationId });
+  };
 
-      // Save complete assistant message
-      await saveMessage({
-        conversationId: conversationId,
-        role: 'assistant',
-        content: acc,
-        ts: Date.now(),
-      });
-      await refreshConversations();
-    } catch (error: any) {
-      let errorMessage = 'Something went wrong. Please try again.';
+  const handleTogglePin = async (conv: ConversationRecord, e: React.MouseEvent) => {
+    e.stopPropagation();
+    await setConversationPinned(conv.conversationId, !conv.pinned);
+    await refreshConversations();
+  };
 
-      if (error.message) {
-        errorMessage = error.message;
-      }
+  const handleRenameSubmit = async () => {
+    if (!renaming) return;
+    await setConversationTitle(renaming.conversationId, renaming.value);
+    setRenaming(null);
+    await refreshConversations();
+  };
 
-      const errorMsg: ChatMessage = {
-        conversationId: conversationId,
-        role: 'assistant',
-        content: `❌ **Error:** ${errorMessage}\n\nIf this is a quota or billing issue, please check your OpenAI account settings.`,
-        ts: Date.now(),
-      };
-      setMessages(m => [...m, errorMsg]);
-      await saveMessage(errorMsg);
-    } finally {
-      setLoading(false);
-    }
-  }
+  const handleEditSubmit = async (original: ChatMessage) => {
+    if (!editing) return;
+    const content = editing.value;
+    setEditing(null);
+    await chat.editAndResend(original, content);
+  };
 
-  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
-    if (e.key === 'Enter' && !e.shiftKey) {
-      e.preventDefault();
-      ask();
-    }
+  const handleLeadSubmitted = async (index: number) => {
+    await chat.updateMessageAt(index, msg =>
+      msg.leadForm ? { ...msg, leadForm: { ...msg.leadForm, submitted: true } } : msg
+    );
   };
 
-  const handleFAQClick = async (question: string) => {
+  const handleBookCall = async () => {
     if (loading) return;
-    
-    // Ensure we have a conversationId
     const conversationId = getConversationId();
     if (!currentConversationId) {
       setCurrentConversationId(conversationId);
     }
-    
-    const userMessage = question.trim();
-    const userMsg: ChatMessage = {
+    await chat.appendMessage({
       conversationId: conversationId,
-      role: 'user',
-      content: userMessage,
+      role: 'assistant',
+      content: t('conversation.bookCall'),
       ts: Date.now(),
-    };
-    
-    await saveMessage(userMsg);
-    const next = [...messages, userMsg];
-    setMessages(next);
-    setInput('');
-    setLoading(true);
+      status: 'complete',
+      leadForm: { prefill: {} },
+    });
+  };
 
-    try {
-      const projectContext = getProjectContext(selectedProject);
-      const fullContext = kbCtx + (projectContext ? '\n\n' + projectContext : '');
+  const handleCopySessionLink = async () => {
+    const link = await getSessionLink();
+    setSyncAvailable(isServerSyncAvailable());
+    if (!link) {
+      alert(t('alert.syncUnavailable'));
+      return;
+    }
+    await navigator.clipboard.writeText(link);
+    alert(t('alert.syncCopied'));
+  };
+
+  const getCurrentExport = async () => {
+    if (!currentConversationId) return null;
+    const { messages: conversation } = await loadBranch(currentConversationId);
+    if (conversation.length === 0) return null;
+    return buildConversationExport(currentConversationId, conversation, selectedProject);
+  };
 
-      // Get recent messages for context
-      const recentMessages = await getRecentMessages(conversationId, 50);
-      const messagesForAPI = recentMessages.map(({ role, content }) => ({ role, content }));
+  const getShareTarget = () => currentConversationId
+    ? { conversationId: currentConversationId, leafUid: messages[messages.length - 1]?.uid }
+    : null;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { data, error } = parseConversationExport(JSON.parse(await file.text()));
+      if (!data) throw new Error(error);
+      const conversationId = await importConversation(data);
+      await refreshConversations();
+      await handleConversationSelect(conversationId);
+      void pushConversation(conversationId);
+    } catch (error: any) {
+      alert(error instanceof SyntaxError ? t('alert.invalidJson') : error?.message || t('alert.importFailed'));
+    }
+  };
 
-      const res = await fetch('/api/chat', {
+  const handleGenerateBrief = async () => {
+    if (!currentConversationId || briefLoading) return;
+    setBriefLoading(true);
+    try {
+      const { messages: conversation } = await loadBranch(currentConversationId);
+      const res = await fetch('/api/brief', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          messages: messagesForAPI,
-          kbContext: fullContext
-        })
+          messages: conversation.map(({ role, content }) => ({ role, content })),
+        }),
       });
-
-      if (!res.ok) {
-        let errorMessage = 'Failed to get response';
-        try {
-          const error = await res.json();
-          errorMessage = error.error || errorMessage;
-        } catch {
-          errorMessage = await res.text().catch(() => errorMessage);
-        }
-        throw new Error(errorMessage);
-      }
-
-      if (!res.body) throw new Error('No response body');
-
-      const reader = res.body.getReader();
-      const decoder = new TextDecoder();
-      let acc = '';
-
-      const assistantMsg: ChatMessage = {
-        conversationId: conversationId,
-        role: 'assistant',
-        content: '',
-        ts: Date.now(),
-      };
-      setMessages(m => [...m, assistantMsg]);
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        acc += decoder.decode(value, { stream: true });
-        setMessages(m => {
-          const copy = [...m];
-          copy[copy.length - 1] = {
-            ...assistantMsg,
-            content: acc,
-          };
-          return copy;
-        });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok || !data.brief) {
+        throw new Error(data.error || t('alert.briefFailed'));
       }
-
-      // Save complete assistant message
-      await saveMessage({
-        conversationId: conversationId,
-        role: 'assistant',
-        content: acc,
-        ts: Date.now(),
-      });
-      await refreshConversations();
+      setBrief(data.brief);
     } catch (error: any) {
-      const errorMessage = error?.message || 'Something went wrong. Please try again.';
-      const errorMsg: ChatMessage = {
-        conversationId: conversationId,
-        role: 'assistant',
-        content: `❌ **Error:** ${errorMessage}\n\nIf this is a quota or billing issue, please check your OpenAI account settings.`,
-        ts: Date.now(),
-      };
-      setMessages(m => [...m, errorMsg]);
-      await saveMessage(errorMsg);
+      alert(error?.message || t('alert.briefFailed'));
     } finally {
-      setLoading(false);
+      setBriefLoading(false);
     }
   };
 
-  const faqQuestions = [
-    'What services does AuraXPro offer?',
-    'What is your tech stack?',
-    'Do you handle CMS?',
-    'Do you do 3D product configurators?',
-    'How long does an MVP typically take?',
-    'What are your development strengths?'
-  ];
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage(input);
+    }
+  };
 
   return (
     <div className="flex h-screen bg-[#171717] text-white overflow-hidden">
       {/* Sidebar */}
       {sidebarOpen && (
-        <aside className="relative w-64 bg-[#212121] border-r border-gray-700 flex flex-col flex-shrink-0" aria-label="Navigation sidebar">
+        <aside className="relative w-64 bg-[#212121] border-r border-gray-700 flex flex-col flex-shrink-0" aria-label={t('sidebar.label')}>
           {/* New Chat Button */}
           <div className="p-3 border-b border-gray-700">
             <button
@@ -586,7 +410,7 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
               <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 4v16m8-8H4" />
               </svg>
-              New chat
+              {t('sidebar.newChat')}
             </button>
           </div>
 
@@ -594,8 +418,12 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
           <div className="p-3 border-b border-gray-700">
             <div className="relative">
               <input
-                type="text"
-                placeholder="Search chats..."
+                type="search"
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                onKeyDown={(e) => e.key === 'Escape' && setSearchQuery('')}
+                placeholder={t('sidebar.searchPlaceholder')}
+                aria-label={t('sidebar.searchLabel')}
                 className="w-full px-3 py-2 pl-9 bg-gray-800 border border-gray-700 rounded-lg text-sm focus:outline-none focus:border-gray-600"
               />
               <svg className="w-4 h-4 absolute left-3 top-2.5 text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -606,96 +434,187 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
 
           {/* Scrollable Content */}
           <div className="flex-1 overflow-y-auto">
-            {/* Recent Projects */}
-            {projects.length > 0 && (
-              <div className="p-3 border-t border-gray-700">
-                <div className="flex items-center justify-between mb-2 px-2">
-                  <h3 className="text-xs font-semibold text-gray-400 uppercase">Recent Projects</h3>
-                </div>
+            {searchResults ? (
+              /* Search Results */
+              <div className="p-3">
+                <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2 px-2">
+                  {searchResults.length === 0
+                    ? t('sidebar.noMatches')
+                    : searchResults.length === 1
+                      ? t('sidebar.matchCountOne')
+                      : t('sidebar.matchCount', { count: searchResults.length })}
+                </h3>
                 <div className="space-y-1">
-                  {projects.map((project) => (
-                    <button
-                      key={project.project_id}
-                      onClick={() => handleProjectSelect(project)}
-                      className={`w-full flex items-center gap-3 px-2 py-2 rounded-lg transition-colors text-sm ${
-                        selectedProject?.project_id === project.project_id
-                          ? 'bg-gray-800 text-white'
-                          : 'text-gray-300 hover:bg-gray-800'
-                      }`}
-                    >
-                      <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
-                      </svg>
-                      <span className="truncate">{project.name}</span>
-                      {selectedProject?.project_id === project.project_id && (
-                        <svg className="w-3 h-3 ml-auto flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
-                          <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
-                        </svg>
-                      )}
-                    </button>
-                  ))}
-                </div>
-              </div>
-            )}
-
-            {/* Recent Chats */}
-            {conversations.length > 0 && (
-              <div className="p-3 border-t border-gray-700">
-                <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2 px-2">Conversations</h3>
-                <div className="space-y-1 max-h-96 overflow-y-auto">
-                  {conversations.map((conv) => {
-                    const isActive = currentConversationId === conv.conversationId;
-                    const displayName = conv.firstMessage 
-                      ? conv.firstMessage.substring(0, 30) + (conv.firstMessage.length > 30 ? '...' : '')
-                      : (() => {
-                          // Try to find project by conversation_id first
-                          const project = projects.find(p => p.conversation_id === conv.conversationId);
-                          if (project) return project.name;
-                          // Fallback to project- prefix matching
-                          if (conv.conversationId.startsWith('project-')) {
-                            const projectId = conv.conversationId.replace('project-', '');
-                            const foundProject = projects.find(p => p.project_id === projectId);
-                            return foundProject?.name || 'Project Chat';
-                          }
-                          return 'New Chat';
-                        })();
-                    const lastActivity = new Date(conv.lastActivity).toLocaleDateString();
-                    
+                  {searchResults.map((result) => {
+                    const conv = conversations.find(c => c.conversationId === result.conversationId);
                     return (
-                      <div
-                        key={conv.conversationId}
-                        className={`group flex items-center gap-2 px-2 py-2 rounded-lg transition-colors ${
-                          isActive
+                      <button
+                        key={result.conversationId}
+                        onClick={() => handleConversationSelect(result.conversationId)}
+                        className={`w-full px-2 py-2 rounded-lg text-left text-sm transition-colors ${
+                          currentConversationId === result.conversationId
                             ? 'bg-gray-800 text-white'
                             : 'text-gray-300 hover:bg-gray-800'
                         }`}
                       >
-                        <button
-                          onClick={() => handleConversationSelect(conv.conversationId)}
-                          className="flex-1 flex items-center gap-3 text-sm text-left min-w-0"
-                        >
-                          <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
-                          </svg>
-                          <div className="flex-1 min-w-0">
-                            <div className="truncate">{displayName}</div>
-                            <div className="text-xs text-gray-500">{lastActivity} • {conv.messageCount} msgs</div>
+                        <div className="truncate font-medium">
+                          <Highlight text={conv ? conversationLabel(conv) : t('conversation.fallback')} query={searchQuery} />
+                        </div>
+                        {result.matches.map((match, i) => (
+                          <div key={match.messageId ?? i} className="mt-1 text-xs text-gray-400 line-clamp-2 break-words">
+                            <span className="text-gray-500">{t(match.role === 'user' ? 'sidebar.you' : 'sidebar.ai')}</span>
+                            <Highlight text={match.snippet} query={searchQuery} />
                           </div>
-                        </button>
-                        <button
-                          onClick={(e) => handleDeleteConversation(conv.conversationId, e)}
-                          className="opacity-0 group-hover:opacity-100 p-1 hover:bg-gray-700 rounded transition-opacity"
-                          title="Delete conversation"
-                        >
-                          <TrashIcon className="w-3.5 h-3.5" />
-                        </button>
-                      </div>
+                        ))}
+                        {result.matchCount > result.matches.length && (
+                          <div className="mt-1 text-xs text-gray-500">
+                            {t('sidebar.moreMatches', { count: result.matchCount - result.matches.length })}
+                          </div>
+                        )}
+                      </button>
                     );
                   })}
                 </div>
               </div>
+            ) : (
+              <>
+              {/* Recent Projects */}
+              {projects.length > 0 && (
+                <div className="p-3 border-t border-gray-700">
+                  <div className="flex items-center justify-between mb-2 px-2">
+                    <h3 className="text-xs font-semibold text-gray-400 uppercase">{t('sidebar.recentProjects')}</h3>
+                  </div>
+                  <div className="space-y-1">
+                    {projects.map((project) => (
+                      <button
+                        key={project.project_id}
+                        onClick={() => handleProjectSelect(project)}
+                        className={`w-full flex items-center gap-3 px-2 py-2 rounded-lg transition-colors text-sm ${
+                          selectedProject?.project_id === project.project_id
+                            ? 'bg-gray-800 text-white'
+                            : 'text-gray-300 hover:bg-gray-800'
+                        }`}
+                      >
+                        <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z" />
+                        </svg>
+                        <span className="truncate">{project.name}</span>
+                        {selectedProject?.project_id === project.project_id && (
+                          <svg className="w-3 h-3 ml-auto flex-shrink-0" fill="currentColor" viewBox="0 0 20 20">
+                            <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                          </svg>
+                        )}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+                {/* Recent Chats */}
+                {conversations.length > 0 && (
+                  <div className="p-3 border-t border-gray-700">
+                    <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2 px-2">{t('sidebar.conversations')}</h3>
+                    <div className="space-y-1 max-h-96 overflow-y-auto">
+                      {conversations.map((conv) => {
+                        const isActive = currentConversationId === conv.conversationId;
+                        const lastActivity = new Date(conv.lastActivity).toLocaleDateString(locale);
+
+                        if (renaming?.conversationId === conv.conversationId) {
+                          return (
+                            <div key={conv.conversationId} className="px-2 py-1.5">
+                              <input
+                                autoFocus
+                                value={renaming.value}
+                                onChange={(e) => setRenaming({ ...renaming, value: e.target.value })}
+                                onBlur={handleRenameSubmit}
+                                onKeyDown={(e) => {
+                                  if (e.key === 'Enter') handleRenameSubmit();
+                                  if (e.key === 'Escape') setRenaming(null);
+                                }}
+                                maxLength={60}
+                                aria-label={t('sidebar.conversationTitle')}
+                                className="w-full px-2 py-1 bg-gray-800 border border-gray-600 rounded text-sm focus:outline-none focus:border-gray-500"
+                              />
+                            </div>
+                          );
+                        }
+
+                        return (
+                          <div
+                            key={conv.conversationId}
+                            className={`group flex items-center gap-2 px-2 py-2 rounded-lg transition-colors ${
+                              isActive
+                                ? 'bg-gray-800 text-white'
+                                : 'text-gray-300 hover:bg-gray-800'
+                            }`}
+                          >
+                            <button
+                              onClick={() => handleConversationSelect(conv.conversationId)}
+                              className="flex-1 flex items-center gap-3 text-sm text-left min-w-0"
+                            >
+                              {conv.pinned ? (
+                                <PinIcon className="w-4 h-4 flex-shrink-0 text-gray-400" />
+                              ) : (
+                                <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
+                                </svg>
+                              )}
+                              <div className="flex-1 min-w-0">
+                                <div className="truncate">{conversationLabel(conv)}</div>
+                                <div className="text-xs text-gray-500">{lastActivity} • {t('sidebar.messageCount', { count: conv.messageCount })}</div>
+                              </div>
+                            </button>
+                            <div className="flex opacity-0 group-hover:opacity-100 transition-opacity">
+                              <button
+                                onClick={(e) => handleTogglePin(conv, e)}
+                                className="p-1 hover:bg-gray-700 rounded"
+                                title={t(conv.pinned ? 'sidebar.unpin' : 'sidebar.pin')}
+                              >
+                                {conv.pinned ? <PinOffIcon className="w-3.5 h-3.5" /> : <PinIcon className="w-3.5 h-3.5" />}
+                              </button>
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setRenaming({ conversationId: conv.conversationId, value: conv.title || conv.firstMessage?.slice(0, 60) || conversationLabel(conv) });
+                                }}
+                                className="p-1 hover:bg-gray-700 rounded"
+                                title={t('sidebar.rename')}
+                              >
+                                <PencilIcon className="w-3.5 h-3.5" />
+                              </button>
+                              <button
+                                onClick={(e) => handleDeleteConversation(conv.conversationId, e)}
+                                className="p-1 hover:bg-gray-700 rounded"
+                                title={t('sidebar.delete')}
+                              >
+                                <TrashIcon className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  </div>
+                )}
+              </>
             )}
           </div>
+
+          {/* Sync, import & language */}
+          <div className="p-3 border-t border-gray-700 space-y-1">
+            <label className="block w-full px-3 py-2 rounded-lg text-xs text-gray-400 hover:bg-gray-800 hover:text-white transition-colors cursor-pointer">
+              {t('sidebar.import')}
+              <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </label>
+            <button
+              onClick={handleCopySessionLink}
+              className="w-full px-3 py-2 rounded-lg text-xs text-gray-400 hover:bg-gray-800 hover:text-white transition-colors text-left"
+              title={t(syncAvailable ? 'sidebar.syncTitle' : 'sidebar.syncUnavailableTitle')}
+            >
+              {t(syncAvailable ? 'sidebar.sync' : 'sidebar.syncUnavailable')}
+            </button>
+            <LanguageSwitcher className="w-full text-xs" />
+          </div>
           <button
             onClick={() => setSidebarOpen(!sidebarOpen)}
             className="absolute top-1/2 -translate-y-1/2 -right-3 p-1 bg-gray-800 rounded-full border border-gray-700 transition-colors cursor-pointer z-10"
@@ -724,26 +643,47 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
               <Image src="/brand.png" alt="Logo" width={128} height={51} />
             </Link>
           </div>
+          <div className="flex items-center gap-2">
+            <ExportMenu
+              disabled={loading || messages.length === 0}
+              getExport={getCurrentExport}
+              getShareTarget={getShareTarget}
+            />
+            <button
+              onClick={handleGenerateBrief}
+              disabled={loading || briefLoading || !messages.some(m => m.role === 'user')}
+              className="px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {t(briefLoading ? 'header.generating' : 'header.generateBrief')}
+            </button>
+            <button
+              onClick={handleBookCall}
+              disabled={loading}
+              className="px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              {t('header.bookCall')}
+            </button>
+          </div>
         </header>
 
         {/* Messages Area */}
-        <section className="flex-1 overflow-y-auto" aria-label="Chat messages">
+        <section className="flex-1 overflow-y-auto" aria-label={t('messages.label')}>
           <div className="max-w-3xl mx-auto px-4 py-8 h-full">
             {messages.length === 0 ? (
               <div className="flex flex-col items-center justify-center h-full text-center px-4">
                 <div className="mb-8 flex flex-col items-center justify-center">
                   <Image src="/brand.png" alt="AuraXPro Logo" width={128} height={51} priority />
-                  <h1 className="text-4xl font-semibold mb-4 text-white mt-6">What are you working on?</h1>
-                  <p className="text-gray-400 mb-8">Ask anything about your project</p>
+                  <h1 className="text-4xl font-semibold mb-4 text-white mt-6">{t('welcome.title')}</h1>
+                  <p className="text-gray-400 mb-8">{t('welcome.subtitle')}</p>
                   
                   {/* Frequently Asked Questions */}
-                  <nav className="w-full max-w-2xl mt-8" aria-label="Suggested questions">
-                    <h2 className="text-sm font-semibold text-gray-400 mb-4 uppercase tracking-wide">Suggested Questions</h2>
+                  <nav className="w-full max-w-2xl mt-8" aria-label={t('welcome.suggestions')}>
+                    <h2 className="text-sm font-semibold text-gray-400 mb-4 uppercase tracking-wide">{t('welcome.suggestions')}</h2>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                      {faqQuestions.map((question, index) => (
+                      {strings.suggestedQuestions.map((question, index) => (
                         <button
                           key={index}
-                          onClick={() => handleFAQClick(question)}
+                          onClick={() => sendMessage(question)}
                           disabled={loading}
                           className="text-left px-4 py-3 rounded-lg border border-gray-700 bg-gray-800/50 hover:bg-gray-800 hover:border-gray-600 transition-all text-sm text-gray-300 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed"
                         >
@@ -755,42 +695,160 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
                 </div>
               </div>
             ) : (
-              <div className="space-y-6" role="log" aria-live="polite" aria-label="Chat conversation">
+              <div className="space-y-6" role="log" aria-live="polite" aria-label={t('messages.log')}>
                 {messages.map((m, i) => (
                   <article key={i} className={`flex gap-4 ${m.role === 'user' ? 'justify-end' : 'justify-start'}`} role={m.role === 'user' ? 'user-message' : 'assistant-message'}>
                     {m.role === 'assistant' && (
                       <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0">
-                        <Image src="/logo.png" alt="Logo" width={24} height={24} />
+                        <Image src="/Logo.png" alt="Logo" width={24} height={24} />
                       </div>
                     )}
-                    <div className={`flex-1 ${m.role === 'user' ? 'flex justify-end' : ''}`}>
-                      <div className={`max-w-[85%] rounded-2xl px-4 py-3 ${m.role === 'user'
-                        ? 'bg-white text-gray-900'
-                        : 'bg-gray-800 text-gray-100'
-                        }`}>
-                        {m.role === 'assistant' ? (
-                          <div className="break-words">
-                            <ReactMarkdown
-                              components={{
-                                p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
-                                strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
-                                ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
-                                ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1">{children}</ol>,
-                                li: ({ children }) => <li className="ml-4">{children}</li>,
-                                h1: ({ children }) => <h1 className="text-xl font-bold mb-2 mt-2 first:mt-0">{children}</h1>,
-                                h2: ({ children }) => <h2 className="text-lg font-bold mb-2 mt-2 first:mt-0">{children}</h2>,
-                                h3: ({ children }) => <h3 className="text-base font-bold mb-2 mt-2 first:mt-0">{children}</h3>,
-                                code: ({ children }) => <code className="bg-gray-700 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>,
-                                pre: ({ children }) => <pre className="bg-gray-700 p-3 rounded mb-2 overflow-x-auto">{children}</pre>,
-                              }}
-                            >
-                              {m.content}
-                            </ReactMarkdown>
+                    <div className={`flex-1 ${m.role === 'user' ? 'flex flex-col items-end' : ''}`}>
+                      {editing && editing.uid === m.uid ? (
+                        <div className="w-full max-w-[85%]">
+                          <textarea
+                            autoFocus
+                            value={editing.value}
+                            onChange={(e) => setEditing({ ...editing, value: e.target.value })}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && !e.shiftKey) {
+                                e.preventDefault();
+                                handleEditSubmit(m);
+                              }
+                              if (e.key === 'Escape') setEditing(null);
+                            }}
+                            rows={3}
+                            aria-label={t('messages.editLabel')}
+                            className="w-full px-4 py-3 rounded-2xl bg-gray-800 border border-gray-600 text-sm text-white resize-none focus:outline-none focus:border-gray-500"
+                          />
+                          <div className="mt-1 flex justify-end gap-2 text-xs">
+                            <button onClick={() => setEditing(null)} className="px-3 py-1.5 rounded-lg text-gray-400 hover:bg-gray-800 hover:text-white">
+                              {t('messages.cancel')}
+                            </button>
+                            <button onClick={() => handleEditSubmit(m)} className="px-3 py-1.5 rounded-lg bg-white text-gray-900 hover:bg-gray-200">
+                              {t('messages.send')}
+                            </button>
                           </div>
-                        ) : (
-                          <div className="whitespace-pre-wrap break-words">{m.content}</div>
-                        )}
-                      </div>
+                        </div>
+                      ) : (
+                        <div className={`max-w-[85%] rounded-2xl px-4 py-3 ${m.role === 'user'
+                          ? 'bg-white text-gray-900'
+                          : m.status === 'refused'
+                            ? 'bg-gray-800 text-gray-300 border border-amber-900/60'
+                            : 'bg-gray-800 text-gray-100'
+                          }`}>
+                          {m.role === 'assistant' ? (
+                            <div className="break-words">
+                              <ReactMarkdown
+                                components={{
+                                  p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                                  strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+                                  ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
+                                  ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1">{children}</ol>,
+                                  li: ({ children }) => <li className="ml-4">{children}</li>,
+                                  h1: ({ children }) => <h1 className="text-xl font-bold mb-2 mt-2 first:mt-0">{children}</h1>,
+                                  h2: ({ children }) => <h2 className="text-lg font-bold mb-2 mt-2 first:mt-0">{children}</h2>,
+                                  h3: ({ children }) => <h3 className="text-base font-bold mb-2 mt-2 first:mt-0">{children}</h3>,
+                                  code: ({ children }) => <code className="bg-gray-700 px-1.5 py-0.5 rounded text-sm font-mono">{children}</code>,
+                                  pre: ({ children }) => <pre className="bg-gray-700 p-3 rounded mb-2 overflow-x-auto">{children}</pre>,
+                                }}
+                              >
+                                {m.content}
+                              </ReactMarkdown>
+                              {m.citations && m.citations.length > 0 && (
+                                <div className="mt-3 flex flex-wrap gap-1.5" aria-label={t('messages.sources')}>
+                                  {m.citations.map((citation) => {
+                                    const project = citation.source === 'experience'
+                                      ? projects.find(p => p.project_id === citation.projectId)
+                                      : undefined;
+                                    return (
+                                      <button
+                                        key={citation.id}
+                                        onClick={() => project && setCardProject(project)}
+                                        disabled={!project}
+                                        title={citation.title}
+                                        className="max-w-[16rem] flex items-center gap-1.5 px-2 py-0.5 rounded-full border border-gray-600 bg-gray-900/60 text-xs text-gray-300 enabled:hover:bg-gray-700 enabled:hover:text-white transition-colors disabled:cursor-default"
+                                      >
+                                        <span className="font-mono text-gray-500">{citation.marker}</span>
+                                        <span className="truncate">{citation.title}</span>
+                                      </button>
+                                    );
+                                  })}
+                                </div>
+                              )}
+                              {m.leadForm && (
+                                <LeadForm
+                                  prefill={m.leadForm.prefill}
+                                  conversationId={m.conversationId}
+                                  submitted={m.leadForm.submitted}
+                                  onSubmitted={() => handleLeadSubmitted(i)}
+                                />
+                              )}
+                              {m.stopped && (
+                                <div className="mt-2 text-xs text-gray-500">{t('messages.stopped')}</div>
+                              )}
+                              {m.status === 'error' && (
+                                <div className="mt-2 px-3 py-2 rounded-lg border border-red-800 bg-red-950/50 text-sm text-red-300" role="alert">
+                                  {t('messages.interrupted')}
+                                </div>
+                              )}
+                            </div>
+                          ) : (
+                            <div className="whitespace-pre-wrap break-words">{m.content}</div>
+                          )}
+                        </div>
+                      )}
+                      {!(editing && editing.uid === m.uid) && m.uid && (() => {
+                        const group = siblings[m.uid];
+                        const canEdit = m.role === 'user';
+                        const canRegenerate = m.role === 'assistant' && i === messages.length - 1 && messages[i - 1]?.role === 'user';
+                        if (!group && !canEdit && !canRegenerate) return null;
+                        return (
+                          <div className="mt-1 flex items-center gap-1 text-xs text-gray-500">
+                            {group && (
+                              <div className="flex items-center" aria-label={t('messages.switchBranch')}>
+                                <button
+                                  onClick={() => chat.switchBranch(m, -1)}
+                                  disabled={loading || group.indexOf(m.uid) === 0}
+                                  className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                                  title={t('messages.previousVersion')}
+                                >
+                                  <ChevronLeftIcon className="w-3.5 h-3.5" />
+                                </button>
+                                <span className="tabular-nums">{group.indexOf(m.uid) + 1}/{group.length}</span>
+                                <button
+                                  onClick={() => chat.switchBranch(m, 1)}
+                                  disabled={loading || group.indexOf(m.uid) === group.length - 1}
+                                  className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-40 disabled:hover:bg-transparent"
+                                  title={t('messages.nextVersion')}
+                                >
+                                  <ChevronRightIcon className="w-3.5 h-3.5" />
+                                </button>
+                              </div>
+                            )}
+                            {canEdit && (
+                              <button
+                                onClick={() => setEditing({ uid: m.uid!, value: m.content })}
+                                disabled={loading}
+                                className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-40"
+                                title={t('messages.editAndResend')}
+                              >
+                                <PencilIcon className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                            {canRegenerate && (
+                              <button
+                                onClick={chat.regenerate}
+                                disabled={loading}
+                                className="p-1 rounded hover:bg-gray-800 hover:text-white disabled:opacity-40"
+                                title={t('messages.regenerate')}
+                              >
+                                <RefreshCwIcon className="w-3.5 h-3.5" />
+                              </button>
+                            )}
+                          </div>
+                        );
+                      })()}
                     </div>
                     {m.role === 'user' && (
                       <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0">
@@ -800,7 +858,7 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
                   </article>
                 ))}
                 {loading && (
-                  <div className="flex gap-4 justify-start" role="status" aria-live="polite" aria-label="AI is thinking">
+                  <div className="flex gap-4 justify-start" role="status" aria-live="polite" aria-label={t('messages.thinking')}>
                     <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0">
                       <svg className="w-5 h-5 text-gray-300" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 12h.01M12 12h.01M16 12h.01M21 12c0 4.418-4.03 8-9 8a9.863 9.863 0 01-4.255-.949L3 20l1.395-3.72C3.512 15.042 3 13.574 3 12c0-4.418 4.03-8 9-8s9 3.582 9 8z" />
@@ -830,31 +888,57 @@ AI Context Note: ${project.ai_context_note || 'N/A'}
                 value={input}
                 onChange={(e) => setInput(e.target.value)}
                 onKeyDown={handleKeyDown}
-                placeholder="Ask anything"
+                placeholder={t('input.placeholder')}
                 rows={1}
                 disabled={loading}
+                aria-label={t('input.label')}
                 className="flex-1 resize-none border-0 focus:ring-0 focus:outline-none px-4 py-3 text-white placeholder-gray-500 bg-transparent"
                 style={{ maxHeight: '200px' }}
               />
               <div className="flex items-center gap-2 mb-2 mr-2">
                 
-                <button
-                  onClick={ask}
-                  disabled={loading || !input.trim()}
-                  className="p-2 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
-                >
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
-                  </svg>
-                </button>
+                {loading ? (
+                  <button
+                    onClick={chat.stop}
+                    className="p-2 text-gray-400 hover:text-white transition-colors"
+                    title={t('input.stop')}
+                    aria-label={t('input.stop')}
+                  >
+                    <SquareIcon className="w-5 h-5 fill-current" />
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => sendMessage(input)}
+                    disabled={!input.trim()}
+                    aria-label={t('input.send')}
+                    className="p-2 text-gray-400 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+                    </svg>
+                  </button>
+                )}
               </div>
             </div>
             <p className="text-xs text-gray-500 mt-2 text-center">
-              AuraXPro AI can make mistakes. Check important info.
+              {t('input.disclaimer')}
             </p>
           </div>
         </footer>
       </div>
+
+      {brief && <ProjectBriefView brief={brief} onClose={() => setBrief(null)} />}
+
+      {cardProject && (
+        <ProjectCard
+          project={cardProject}
+          onClose={() => setCardProject(null)}
+          onAsk={(project) => {
+            setCardProject(null);
+            handleProjectSelect(project);
+          }}
+        />
+      )}
     </div>
   );
 }
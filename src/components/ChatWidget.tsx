@@ -0,0 +1,227 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import Image from 'next/image';
+import ReactMarkdown from 'react-markdown';
+import { ExternalLinkIcon, SquareIcon, XIcon } from 'lucide-react';
+import { Project, fetchProjects, findProjectBySlug, projectConversationId } from '@/lib/projects';
+import LeadForm from '@/components/LeadForm';
+import { useChatSession } from '@/hooks/useChatSession';
+import { WidgetConfig, WidgetEvent, WidgetTheme, isWidgetCommand } from '@/lib/widget';
+import { useI18n } from '@/components/I18nProvider';
+
+// The general (non-project) widget conversation continues across page views
+const CONVERSATION_KEY = 'auraxpro_widget_conversation_v1';
+
+const themes: Record<WidgetTheme, Record<'panel' | 'header' | 'muted' | 'assistant' | 'user' | 'input' | 'button', string>> = {
+  dark: {
+    panel: 'bg-[#212121] text-white',
+    header: 'border-gray-700',
+    muted: 'text-gray-400',
+    assistant: 'bg-gray-800 text-gray-100',
+    user: 'bg-white text-gray-900',
+    input: 'bg-gray-800 border-gray-700 text-white placeholder-gray-500 focus-within:border-gray-600',
+    button: 'text-gray-400 hover:text-white',
+  },
+  light: {
+    panel: 'bg-white text-gray-900',
+    header: 'border-gray-200',
+    muted: 'text-gray-500',
+    assistant: 'bg-gray-100 text-gray-900',
+    user: 'bg-gray-900 text-white',
+    input: 'bg-gray-50 border-gray-200 text-gray-900 placeholder-gray-400 focus-within:border-gray-400',
+    button: 'text-gray-500 hover:text-gray-900',
+  },
+};
+
+function postToHost(event: WidgetEvent) {
+  if (window.parent !== window) {
+    // Nothing sensitive is sent, and the host's origin isn't known in advance
+    window.parent.postMessage(event, '*');
+  }
+}
+
+/**
+ * Compact chat panel rendered inside the widget iframe (see /embed and
+ * public/embed.js). The launcher and open/close state live on the host page.
+ */
+export default function ChatWidget({ config }: { config: WidgetConfig }) {
+  const [input, setInput] = useState('');
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [projectSlug, setProjectSlug] = useState<string | null>(config.project || null);
+  const [generalConversationId, setGeneralConversationId] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const { locale, t } = useI18n();
+
+  const project = (projectSlug && findProjectBySlug(projects, projectSlug)) || null;
+  const conversationId = project ? projectConversationId(project) : generalConversationId;
+  const chat = useChatSession(conversationId, { projectId: project?.project_id, locale });
+  const { messages, loading } = chat;
+  const theme = themes[config.theme];
+
+  useEffect(() => {
+    setGeneralConversationId(localStorage.getItem(CONVERSATION_KEY));
+    fetchProjects().then(setProjects);
+
+    // Commands from the host page, relayed by the loader
+    const handleMessage = (event: MessageEvent) => {
+      if (event.source !== window.parent || !isWidgetCommand(event.data)) return;
+      setProjectSlug(event.data.project);
+    };
+    window.addEventListener('message', handleMessage);
+    postToHost({ type: 'auraxpro:ready' });
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  useEffect(() => {
+    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const sendMessage = async (content: string) => {
+    if (!content.trim() || loading) return;
+    let id = conversationId;
+    if (!id) {
+      id = `conversation-${Date.now()}`;
+      localStorage.setItem(CONVERSATION_KEY, id);
+      setGeneralConversationId(id);
+    }
+    setInput('');
+    await chat.send(content, { conversationId: id, projectId: project?.project_id });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault();
+      sendMessage(input);
+    }
+  };
+
+  const greeting = config.greeting ||
+    (project ? t('widget.projectGreeting', { project: project.name }) : t('widget.greeting'));
+
+  return (
+    <div className={`flex flex-col h-screen ${theme.panel}`}>
+      <header className={`flex items-center gap-3 px-4 py-3 border-b ${theme.header}`}>
+        <div className="w-8 h-8 rounded-full bg-gray-700 flex items-center justify-center flex-shrink-0">
+          <Image src="/Logo.png" alt="Logo" width={24} height={24} />
+        </div>
+        <div className="flex-1 min-w-0">
+          <h1 className="text-sm font-semibold">AuraXPro AI</h1>
+          <p className={`text-xs truncate ${theme.muted}`}>{project ? project.name : t('widget.status')}</p>
+        </div>
+        <a
+          href="/"
+          target="_blank"
+          rel="noopener"
+          className={`p-1.5 rounded transition-colors ${theme.button}`}
+          title={t('widget.openFull')}
+          aria-label={t('widget.openFull')}
+        >
+          <ExternalLinkIcon className="w-4 h-4" />
+        </a>
+        <button
+          onClick={() => postToHost({ type: 'auraxpro:close' })}
+          className={`p-1.5 rounded transition-colors ${theme.button}`}
+          title={t('widget.close')}
+          aria-label={t('widget.close')}
+        >
+          <XIcon className="w-4 h-4" />
+        </button>
+      </header>
+
+      <section className="flex-1 overflow-y-auto px-4 py-4 space-y-4 text-sm" aria-live="polite">
+        {messages.length === 0 && (
+          <div className={`max-w-[85%] rounded-2xl px-3 py-2 ${theme.assistant}`}>
+            <ReactMarkdown>{greeting}</ReactMarkdown>
+          </div>
+        )}
+        {messages.map((m, i) => (
+          <div key={m.uid || i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] rounded-2xl px-3 py-2 break-words ${m.role === 'user' ? theme.user : theme.assistant}`}>
+              {m.role === 'assistant' ? (
+                <>
+                  <ReactMarkdown
+                    components={{
+                      p: ({ children }) => <p className="mb-2 last:mb-0">{children}</p>,
+                      ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
+                      ol: ({ children }) => <ol className="list-decimal list-inside mb-2 space-y-1">{children}</ol>,
+                      code: ({ children }) => <code className="bg-black/20 px-1 py-0.5 rounded text-xs font-mono">{children}</code>,
+                      pre: ({ children }) => <pre className="bg-black/20 p-2 rounded mb-2 overflow-x-auto">{children}</pre>,
+                    }}
+                  >
+                    {m.content}
+                  </ReactMarkdown>
+                  {m.leadForm && (
+                    <LeadForm
+                      prefill={m.leadForm.prefill}
+                      conversationId={m.conversationId}
+                      submitted={m.leadForm.submitted}
+                      onSubmitted={() => chat.updateMessageAt(i, msg =>
+                        msg.leadForm ? { ...msg, leadForm: { ...msg.leadForm, submitted: true } } : msg
+                      )}
+                    />
+                  )}
+                  {m.stopped && <div className={`mt-1 text-xs ${theme.muted}`}>{t('messages.stopped')}</div>}
+                  {m.status === 'error' && (
+                    <div className="mt-2 px-2 py-1.5 rounded-lg border border-red-800 bg-red-950/50 text-xs text-red-300" role="alert">
+                      {t('messages.interrupted')}
+                    </div>
+                  )}
+                </>
+              ) : (
+                <div className="whitespace-pre-wrap">{m.content}</div>
+              )}
+            </div>
+          </div>
+        ))}
+        {loading && messages[messages.length - 1]?.role !== 'assistant' && (
+          <div className={`w-fit rounded-2xl px-3 py-2 ${theme.assistant}`} role="status" aria-label={t('messages.thinking')}>
+            <div className="flex gap-1">
+              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '0ms' }}></div>
+              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '150ms' }}></div>
+              <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-bounce" style={{ animationDelay: '300ms' }}></div>
+            </div>
+          </div>
+        )}
+        <div ref={messagesEndRef} />
+      </section>
+
+      <footer className="px-3 pb-3">
+        <div className={`flex items-end gap-2 rounded-2xl border transition-colors ${theme.input}`}>
+          <textarea
+            value={input}
+            onChange={(e) => setInput(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={t('input.placeholder')}
+            rows={1}
+            disabled={loading}
+            aria-label={t('input.label')}
+            className="flex-1 resize-none border-0 focus:ring-0 focus:outline-none px-3 py-2.5 text-sm bg-transparent"
+            style={{ maxHeight: '120px' }}
+          />
+          {loading ? (
+            <button
+              onClick={chat.stop}
+              className={`p-2 mb-1 mr-1 transition-colors ${theme.button}`}
+              title={t('input.stop')}
+              aria-label={t('input.stop')}
+            >
+              <SquareIcon className="w-4 h-4 fill-current" />
+            </button>
+          ) : (
+            <button
+              onClick={() => sendMessage(input)}
+              disabled={!input.trim()}
+              className={`p-2 mb-1 mr-1 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${theme.button}`}
+              aria-label={t('input.send')}
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
+              </svg>
+            </button>
+          )}
+        </div>
+      </footer>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { DownloadIcon, FileJsonIcon, Link2Icon, Share2Icon } from 'lucide-react';
+import { ConversationExport, conversationTitle, conversationToMarkdown } from '@/lib/conversation-export';
+import { useI18n } from '@/components/I18nProvider';
+import { pushConversation } from '@/lib/conversation-sync';
+
+interface ExportMenuProps {
+  disabled?: boolean;
+  /** Build the export for the current conversation (null when there is nothing to export) */
+  getExport: () => Promise<ConversationExport | null>;
+  /** The conversation and the last message of the branch on screen, for share links */
+  getShareTarget: () => { conversationId: string; leafUid?: string } | null;
+}
+
+function downloadFile(name: string, content: string, type: string) {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function fileName(exported: ConversationExport, extension: string): string {
+  const slug = conversationTitle(exported).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'conversation';
+  return `${slug.slice(0, 60)}.${extension}`;
+}
+
+export default function ExportMenu({ disabled, getExport, getShareTarget }: ExportMenuProps) {
+  const [open, setOpen] = useState(false);
+  const [sharing, setSharing] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const { t } = useI18n();
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', handleClick);
+    return () => document.removeEventListener('mousedown', handleClick);
+  }, [open]);
+
+  const handleDownload = async (format: 'markdown' | 'json') => {
+    setOpen(false);
+    const exported = await getExport();
+    if (!exported) return;
+    if (format === 'markdown') {
+      downloadFile(fileName(exported, 'md'), conversationToMarkdown(exported), 'text/markdown;charset=utf-8');
+    } else {
+      downloadFile(fileName(exported, 'json'), JSON.stringify(exported, null, 2), 'application/json');
+    }
+  };
+
+  const handleShare = async () => {
+    setOpen(false);
+    const target = getShareTarget();
+    if (!target) return;
+    setSharing(true);
+    try {
+      // Shares are built from the server's copy, so make sure it is current
+      await pushConversation(target.conversationId);
+      const res = await fetch('/api/share', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(target),
+      });
+      const data = await res.json().catch(() => ({}));
+      if (res.status === 404) {
+        throw new Error(t('share.notSynced'));
+      }
+      if (!res.ok || !data.id) {
+        throw new Error(data.error || t('share.failed'));
+      }
+      await navigator.clipboard.writeText(`${window.location.origin}/share/${data.id}`);
+      alert(t('share.copied'));
+    } catch (error: any) {
+      alert(error?.message || t('share.failed'));
+    } finally {
+      setSharing(false);
+    }
+  };
+
+  const itemClass = 'w-full flex items-center gap-2 px-3 py-2 text-left text-sm text-gray-300 hover:bg-gray-800 hover:text-white';
+
+  return (
+    <div className="relative" ref={menuRef}>
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={disabled || sharing}
+        className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        aria-haspopup="menu"
+        aria-expanded={open}
+      >
+        <Share2Icon className="w-4 h-4" />
+        {t(sharing ? 'share.sharing' : 'share.button')}
+      </button>
+      {open && (
+        <div className="absolute right-0 mt-1 w-52 py-1 rounded-lg border border-gray-700 bg-[#212121] shadow-lg z-20" role="menu">
+          <button onClick={handleShare} className={itemClass} role="menuitem">
+            <Link2Icon className="w-4 h-4" />
+            {t('share.copyLink')}
+          </button>
+          <button onClick={() => handleDownload('markdown')} className={itemClass} role="menuitem">
+            <DownloadIcon className="w-4 h-4" />
+            {t('share.markdown')}
+          </button>
+          <button onClick={() => handleDownload('json')} className={itemClass} role="menuitem">
+            <FileJsonIcon className="w-4 h-4" />
+            {t('share.json')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import { createContext, useContext, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  LOCALES,
+  LOCALE_COOKIE,
+  LOCALE_NAMES,
+  Locale,
+  MessageKey,
+  getMessages,
+  translate,
+} from '@/lib/i18n';
+import type { Messages } from '@/lib/translations';
+
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365; // 1 year, in seconds
+
+interface I18nContextValue {
+  locale: Locale;
+  messages: Messages;
+  t: (key: MessageKey, values?: Record<string, string | number>) => string;
+  /** Remember the choice in a cookie and re-render the page in that locale */
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+/**
+ * Provides the UI strings of the locale resolved on the server (see src/lib/locale.ts)
+ */
+export default function I18nProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  const router = useRouter();
+
+  // The root layout sets lang from the request; this covers pages that pick
+  // another locale themselves (e.g. /embed?locale=de)
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    messages: getMessages(locale),
+    t: (key, values) => translate(locale, key, values),
+    setLocale: (next) => {
+      document.cookie = `${LOCALE_COOKIE}=${next}; path=/; max-age=${LOCALE_COOKIE_MAX_AGE}; samesite=lax`;
+      router.refresh();
+    },
+  }), [locale, router]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
+
+export function useI18n(): I18nContextValue {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside an I18nProvider');
+  }
+  return context;
+}
+
+/**
+ * Language picker; the choice wins over the browser's Accept-Language
+ */
+export function LanguageSwitcher({ className = '' }: { className?: string }) {
+  const { locale, setLocale, t } = useI18n();
+  return (
+    <select
+      value={locale}
+      onChange={(e) => setLocale(e.target.value as Locale)}
+      aria-label={t('language.label')}
+      className={`bg-transparent border border-gray-700 rounded-lg px-2 py-1.5 text-sm text-gray-300 focus:outline-none focus:border-gray-500 ${className}`}
+    >
+      {LOCALES.map(code => (
+        <option key={code} value={code} className="bg-[#171717]">{LOCALE_NAMES[code]}</option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,360 @@
+'use client';
+
+import { useState } from 'react';
+import { PlusIcon, Trash2Icon } from 'lucide-react';
+import type { KB, Project } from '@/lib/kb';
+import type { FieldErrors } from '@/lib/kb-schema';
+import type { KnowledgeVersion } from '@/lib/kb-store';
+
+interface KnowledgeEditorProps {
+  initialKB: KB;
+  initialProjects: Project[];
+  initialVersions: KnowledgeVersion[];
+}
+
+type Tab = 'services' | 'faqs' | 'projects';
+
+type ProjectField = {
+  key: keyof Project;
+  label: string;
+  type: 'text' | 'textarea' | 'list';
+};
+
+// Editable project fields, in the order they appear in experience.json
+const PROJECT_FIELDS: ProjectField[] = [
+  { key: 'project_id', label: 'Project ID', type: 'text' },
+  { key: 'name', label: 'Name', type: 'text' },
+  { key: 'slug', label: 'Slug', type: 'text' },
+  { key: 'category', label: 'Category', type: 'text' },
+  { key: 'client_name', label: 'Client', type: 'text' },
+  { key: 'status', label: 'Status', type: 'text' },
+  { key: 'start_date', label: 'Start date', type: 'text' },
+  { key: 'budget', label: 'Budget', type: 'text' },
+  { key: 'team_members', label: 'Team members', type: 'list' },
+  { key: 'frontend_stack', label: 'Frontend stack', type: 'list' },
+  { key: 'backend_stack', label: 'Backend stack', type: 'list' },
+  { key: 'integrations', label: 'Integrations', type: 'list' },
+  { key: 'deployment', label: 'Deployment', type: 'text' },
+  { key: 'goal_summary', label: 'Goal summary', type: 'textarea' },
+  { key: 'core_features', label: 'Core features', type: 'list' },
+  { key: 'target_users', label: 'Target users', type: 'textarea' },
+  { key: 'unique_value', label: 'Unique value', type: 'textarea' },
+  { key: 'challenges', label: 'Challenges', type: 'list' },
+  { key: 'solutions', label: 'Solutions', type: 'list' },
+  { key: 'experience', label: 'Experience', type: 'textarea' },
+  { key: 'lessons_learned', label: 'Lessons learned', type: 'textarea' },
+  { key: 'communication_tools', label: 'Communication tools', type: 'list' },
+  { key: 'update_frequency', label: 'Update frequency', type: 'text' },
+  { key: 'conversation_id', label: 'Conversation ID', type: 'text' },
+  { key: 'tags', label: 'Tags', type: 'list' },
+  { key: 'ai_context_note', label: 'AI context note', type: 'textarea' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-gray-500';
+
+function emptyProject(): Project {
+  return {
+    project_id: '', name: '', slug: '', category: '', client_name: '', status: 'in_progress',
+    start_date: new Date().toISOString().slice(0, 10), budget: '', team_members: [],
+    frontend_stack: [], backend_stack: [], integrations: [], deployment: '', goal_summary: '',
+    core_features: [], target_users: '', unique_value: '', challenges: [], solutions: [],
+    lessons_learned: '', communication_tools: [], update_frequency: '', conversation_id: '',
+    tags: [], ai_context_note: '',
+  };
+}
+
+// Lists are edited one item per line
+function toLines(value: string[]): string {
+  return value.join('\n');
+}
+
+function fromLines(value: string): string[] {
+  return value.split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Error for a field, or the first error for any of its items (e.g. "projects.0.tags.2")
+ */
+function errorFor(errors: FieldErrors, path: string): string | undefined {
+  if (errors[path]) return errors[path];
+  const nested = Object.keys(errors).find(key => key.startsWith(`${path}.`));
+  return nested ? errors[nested] : undefined;
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <span className="block mt-1 text-xs text-red-400">{message}</span> : null;
+}
+
+export default function KnowledgeEditor({ initialKB, initialProjects, initialVersions }: KnowledgeEditorProps) {
+  const [tab, setTab] = useState<Tab>('services');
+  const [kb, setKB] = useState<KB>(initialKB);
+  const [projects, setProjects] = useState<Project[]>(initialProjects);
+  const [versions, setVersions] = useState<KnowledgeVersion[]>(initialVersions);
+  const [selected, setSelected] = useState(0);
+  const [errors, setErrors] = useState<FieldErrors>({});
+  const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const project = projects[selected];
+
+  const updateProject = (field: keyof Project, value: string | string[]) => {
+    setProjects(prev => prev.map((p, i) => (i === selected ? { ...p, [field]: value } : p)));
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setStatus(null);
+    try {
+      const res = await fetch('/api/admin/kb', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ kb, projects }),
+      });
+      const body = await res.json().catch(() => ({}));
+      if (!res.ok) {
+        setErrors(body.fieldErrors || {});
+        throw new Error(body.error || 'Failed to save');
+      }
+      setErrors({});
+      setVersions(body.versions || []);
+      setStatus({ type: 'success', message: 'Saved. The assistant now uses the updated knowledge base.' });
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error?.message || 'Failed to save' });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (version: string) => {
+    if (!confirm('Restore this version? The current file is kept as a new version.')) return;
+    const res = await fetch('/api/admin/kb/restore', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ version }),
+    });
+    const body = await res.json().catch(() => ({}));
+    if (!res.ok) {
+      setStatus({ type: 'error', message: body.error || 'Failed to restore version' });
+      return;
+    }
+    // Reload so both files reflect what's on disk
+    window.location.reload();
+  };
+
+  // Count errors per tab so problems on hidden tabs are still visible
+  const errorCount = (prefix: string) => Object.keys(errors).filter(key => key.startsWith(prefix)).length;
+  const tabs: { id: Tab; label: string; errors: number }[] = [
+    { id: 'services', label: 'Services', errors: errorCount('kb.services') },
+    { id: 'faqs', label: 'FAQs', errors: errorCount('kb.faqs') },
+    { id: 'projects', label: 'Projects', errors: errorCount('projects') },
+  ];
+  const otherErrors = Object.entries(errors).filter(
+    ([key]) => key.startsWith('kb.') && !key.startsWith('kb.services') && !key.startsWith('kb.faqs')
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-2">
+          {tabs.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setTab(t.id)}
+              className={`px-3 py-1.5 rounded-lg text-sm transition-colors ${
+                tab === t.id ? 'bg-gray-700 text-white' : 'text-gray-400 hover:bg-gray-800 hover:text-white'
+              }`}
+            >
+              {t.label}
+              {t.errors > 0 && <span className="ml-1.5 text-xs text-red-400">({t.errors})</span>}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-4 py-2 rounded-lg bg-white text-gray-900 text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+        >
+          {saving ? 'Saving…' : 'Save changes'}
+        </button>
+      </div>
+
+      {status && (
+        <p className={`text-sm ${status.type === 'success' ? 'text-green-400' : 'text-red-400'}`} role="status">
+          {status.message}
+        </p>
+      )}
+      {otherErrors.map(([key, message]) => (
+        <p key={key} className="text-sm text-red-400">{key}: {message}</p>
+      ))}
+
+      {/* Services */}
+      {tab === 'services' && (
+        <section className="space-y-2">
+          {kb.services.map((service, i) => (
+            <div key={i}>
+              <div className="flex items-center gap-2">
+                <input
+                  value={service}
+                  onChange={(e) => setKB({ ...kb, services: kb.services.map((s, j) => (j === i ? e.target.value : s)) })}
+                  className={inputClass}
+                />
+                <button
+                  onClick={() => setKB({ ...kb, services: kb.services.filter((_, j) => j !== i) })}
+                  className="p-2 rounded hover:bg-gray-700 text-gray-400 hover:text-white transition-colors"
+                  title="Remove service"
+                >
+                  <Trash2Icon className="w-4 h-4" />
+                </button>
+              </div>
+              <FieldError message={errors[`kb.services.${i}`]} />
+            </div>
+          ))}
+          <FieldError message={errors['kb.services']} />
+          <button
+            onClick={() => setKB({ ...kb, services: [...kb.services, ''] })}
+            className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Add service
+          </button>
+        </section>
+      )}
+
+      {/* FAQs */}
+      {tab === 'faqs' && (
+        <section className="space-y-4">
+          {kb.faqs.map((faq, i) => (
+            <div key={i} className="rounded-xl border border-gray-700 bg-[#212121] p-4 space-y-2">
+              <div className="flex items-start gap-2">
+                <div className="flex-1">
+                  <input
+                    value={faq.q}
+                    onChange={(e) => setKB({ ...kb, faqs: kb.faqs.map((f, j) => (j === i ? { ...f, q: e.target.value } : f)) })}
+                    placeholder="Question"
+                    className={inputClass}
+                  />
+                  <FieldError message={errors[`kb.faqs.${i}.q`]} />
+                </div>
+                <button
+                  onClick={() => setKB({ ...kb, faqs: kb.faqs.filter((_, j) => j !== i) })}
+                  className="p-2 rounded hover:bg-gray-700 text-gray-400 hover:text-white transition-colors"
+                  title="Remove FAQ"
+                >
+                  <Trash2Icon className="w-4 h-4" />
+                </button>
+              </div>
+              <textarea
+                value={faq.a}
+                onChange={(e) => setKB({ ...kb, faqs: kb.faqs.map((f, j) => (j === i ? { ...f, a: e.target.value } : f)) })}
+                placeholder="Answer"
+                rows={3}
+                className={`${inputClass} resize-y`}
+              />
+              <FieldError message={errors[`kb.faqs.${i}.a`]} />
+            </div>
+          ))}
+          <button
+            onClick={() => setKB({ ...kb, faqs: [...kb.faqs, { q: '', a: '' }] })}
+            className="flex items-center gap-1.5 text-sm text-gray-400 hover:text-white"
+          >
+            <PlusIcon className="w-4 h-4" />
+            Add FAQ
+          </button>
+        </section>
+      )}
+
+      {/* Projects */}
+      {tab === 'projects' && (
+        <section className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-6">
+          <div className="space-y-1">
+            {projects.map((p, i) => (
+              <button
+                key={i}
+                onClick={() => setSelected(i)}
+                className={`w-full text-left px-3 py-2 rounded-lg text-sm truncate transition-colors ${
+                  i === selected ? 'bg-gray-700 text-white' : 'text-gray-300 hover:bg-gray-800'
+                } ${errorCount(`projects.${i}.`) > 0 ? 'border border-red-800' : ''}`}
+              >
+                {p.name || 'Untitled project'}
+              </button>
+            ))}
+            <button
+              onClick={() => {
+                setProjects([...projects, emptyProject()]);
+                setSelected(projects.length);
+              }}
+              className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-400 hover:text-white"
+            >
+              <PlusIcon className="w-4 h-4" />
+              Add project
+            </button>
+          </div>
+
+          {project && (
+            <div className="space-y-3">
+              {PROJECT_FIELDS.map(field => {
+                const path = `projects.${selected}.${field.key}`;
+                const value = project[field.key];
+                return (
+                  <label key={field.key} className="block text-xs text-gray-400">
+                    {field.label}
+                    {field.type === 'list' && <span className="text-gray-600"> (one per line)</span>}
+                    {field.type === 'text' ? (
+                      <input
+                        value={(value as string) || ''}
+                        onChange={(e) => updateProject(field.key, e.target.value)}
+                        className={`${inputClass} mt-1`}
+                      />
+                    ) : (
+                      <textarea
+                        value={field.type === 'list' ? toLines((value as string[]) || []) : (value as string) || ''}
+                        onChange={(e) => updateProject(field.key, field.type === 'list' ? fromLines(e.target.value) : e.target.value)}
+                        rows={field.type === 'list' ? 4 : 3}
+                        className={`${inputClass} mt-1 resize-y`}
+                      />
+                    )}
+                    <FieldError message={errorFor(errors, path)} />
+                  </label>
+                );
+              })}
+              <button
+                onClick={() => {
+                  if (!confirm(`Remove "${project.name || 'this project'}"?`)) return;
+                  setProjects(projects.filter((_, i) => i !== selected));
+                  setSelected(Math.max(0, selected - 1));
+                }}
+                className="flex items-center gap-1.5 text-sm text-red-400 hover:text-red-300"
+              >
+                <Trash2Icon className="w-4 h-4" />
+                Remove project
+              </button>
+            </div>
+          )}
+        </section>
+      )}
+
+      {/* Versions */}
+      <section>
+        <h2 className="text-sm font-semibold text-gray-400 uppercase mb-3">Previous Versions</h2>
+        {versions.length === 0 ? (
+          <p className="text-sm text-gray-500">No previous versions yet. One is kept every time you save.</p>
+        ) : (
+          <ul className="divide-y divide-gray-800 rounded-xl border border-gray-700">
+            {versions.map(v => (
+              <li key={v.version} className="flex items-center justify-between px-4 py-2 text-sm">
+                <span className="text-gray-300">
+                  {v.file === 'kb' ? 'Knowledge base' : 'Projects'}
+                  <span className="text-gray-500"> • {new Date(v.savedAt).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' })}</span>
+                </span>
+                <button onClick={() => handleRestore(v.version)} className="text-gray-400 hover:text-white">
+                  Restore
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+}
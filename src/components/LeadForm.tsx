@@ -0,0 +1,112 @@
+'use client';
+
+import { useState } from 'react';
+import { BUDGET_RANGES, LeadFieldErrors, LeadPrefill, validateLead } from '@/lib/leads';
+import { useI18n } from '@/components/I18nProvider';
+
+interface LeadFormProps {
+  prefill: LeadPrefill;
+  conversationId: string;
+  submitted?: boolean;
+  onSubmitted: () => void;
+}
+
+const inputClass =
+  'w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-gray-500';
+
+export default function LeadForm({ prefill, conversationId, submitted, onSubmitted }: LeadFormProps) {
+  const [name, setName] = useState(prefill.name || '');
+  const [email, setEmail] = useState(prefill.email || '');
+  const [budget, setBudget] = useState<string>(prefill.budget || '');
+  const [summary, setSummary] = useState(prefill.summary || '');
+  const [errors, setErrors] = useState<LeadFieldErrors>({});
+  const [formError, setFormError] = useState<string | null>(null);
+  const [sending, setSending] = useState(false);
+  const { locale, t } = useI18n();
+
+  if (submitted) {
+    return (
+      <div className="mt-3 px-3 py-2 rounded-lg border border-green-800 bg-green-950/40 text-sm text-green-300" role="status">
+        {t('lead.thanks')}
+      </div>
+    );
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = { name, email, budget, summary, conversationId };
+
+    const { errors: clientErrors } = validateLead(payload, locale);
+    if (clientErrors) {
+      setErrors(clientErrors);
+      return;
+    }
+
+    setErrors({});
+    setFormError(null);
+    setSending(true);
+    try {
+      const res = await fetch('/api/leads', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload),
+      });
+      if (!res.ok) {
+        const body = await res.json().catch(() => ({}));
+        setErrors(body.fieldErrors || {});
+        throw new Error(body.error || t('lead.failed'));
+      }
+      onSubmitted();
+    } catch (error: any) {
+      setFormError(error?.message || t('lead.failed'));
+    } finally {
+      setSending(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3 p-3 rounded-xl border border-gray-700 bg-gray-900/60" noValidate>
+      <h3 className="text-sm font-semibold text-white">{t('lead.title')}</h3>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <label className="block text-xs text-gray-400">
+          {t('lead.name')}
+          <input value={name} onChange={(e) => setName(e.target.value)} className={`${inputClass} mt-1`} autoComplete="name" />
+          {errors.name && <span className="block mt-1 text-red-400">{errors.name}</span>}
+        </label>
+        <label className="block text-xs text-gray-400">
+          {t('lead.email')}
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} className={`${inputClass} mt-1`} autoComplete="email" />
+          {errors.email && <span className="block mt-1 text-red-400">{errors.email}</span>}
+        </label>
+      </div>
+
+      <label className="block text-xs text-gray-400">
+        {t('lead.budget')}
+        <select value={budget} onChange={(e) => setBudget(e.target.value)} className={`${inputClass} mt-1`}>
+          <option value="" disabled>{t('lead.selectRange')}</option>
+          {BUDGET_RANGES.map((range) => (
+            <option key={range} value={range}>{range}</option>
+          ))}
+        </select>
+        {errors.budget && <span className="block mt-1 text-red-400">{errors.budget}</span>}
+      </label>
+
+      <label className="block text-xs text-gray-400">
+        {t('lead.summary')}
+        <textarea value={summary} onChange={(e) => setSummary(e.target.value)} rows={3} className={`${inputClass} mt-1 resize-y`} />
+        {errors.summary && <span className="block mt-1 text-red-400">{errors.summary}</span>}
+      </label>
+
+      {formError && <p className="text-xs text-red-400" role="alert">{formError}</p>}
+
+      <button
+        type="submit"
+        disabled={sending}
+        className="w-full px-4 py-2 rounded-lg bg-white text-gray-900 text-sm font-medium hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+      >
+        {t(sending ? 'lead.sending' : 'lead.send')}
+      </button>
+    </form>
+  );
+}
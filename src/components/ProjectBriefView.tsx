@@ -0,0 +1,98 @@
+'use client';
+
+import { DownloadIcon, FileTextIcon, XIcon } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { briefToMarkdown, ProjectBrief } from '@/lib/brief';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ProjectBriefViewProps {
+  brief: ProjectBrief;
+  onClose: () => void;
+}
+
+function fileName(brief: ProjectBrief, extension: string): string {
+  const slug = brief.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project-brief';
+  return `${slug}.${extension}`;
+}
+
+function downloadMarkdown(brief: ProjectBrief) {
+  const blob = new Blob([briefToMarkdown(brief)], { type: 'text/markdown;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName(brief, 'md');
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Open the rendered brief in a print window so the browser can save it as PDF
+ */
+function printBrief(contentId: string, title: string) {
+  const content = document.getElementById(contentId);
+  const win = window.open('', '_blank', 'width=800,height=1000');
+  if (!content || !win) return;
+  win.document.write(`<!doctype html><html><head><title>${title.replace(/</g, '&lt;')}</title>
+<style>body{font-family:system-ui,sans-serif;max-width:720px;margin:40px auto;color:#111;line-height:1.5}h1{font-size:24px}h2{font-size:18px;margin-top:24px}</style>
+</head><body>${content.innerHTML}</body></html>`);
+  win.document.close();
+  win.focus();
+  win.print();
+}
+
+export default function ProjectBriefView({ brief, onClose }: ProjectBriefViewProps) {
+  const { t } = useI18n();
+  const contentId = 'project-brief-content';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('brief.label')}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col rounded-2xl border border-gray-700 bg-[#212121] text-gray-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-gray-700">
+          <h2 className="text-lg font-semibold text-white">{t('brief.title')}</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadMarkdown(brief)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+            >
+              <DownloadIcon className="w-4 h-4" />
+              {t('brief.markdown')}
+            </button>
+            <button
+              onClick={() => printBrief(contentId, brief.title)}
+              className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-700 text-sm text-gray-300 hover:bg-gray-800 hover:text-white transition-colors"
+            >
+              <FileTextIcon className="w-4 h-4" />
+              {t('brief.pdf')}
+            </button>
+            <button onClick={onClose} className="p-1 rounded hover:bg-gray-700 transition-colors" title={t('brief.close')}>
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div id={contentId} className="overflow-y-auto px-6 py-4 text-sm break-words">
+          <ReactMarkdown
+            components={{
+              h1: ({ children }) => <h1 className="text-xl font-bold mb-2">{children}</h1>,
+              h2: ({ children }) => <h2 className="text-base font-bold mt-4 mb-2">{children}</h2>,
+              p: ({ children }) => <p className="mb-2">{children}</p>,
+              ul: ({ children }) => <ul className="list-disc list-inside mb-2 space-y-1">{children}</ul>,
+              strong: ({ children }) => <strong className="font-semibold">{children}</strong>,
+            }}
+          >
+            {briefToMarkdown(brief)}
+          </ReactMarkdown>
+        </div>
+      </div>
+    </div>
+  );
+}
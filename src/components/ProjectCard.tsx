@@ -0,0 +1,88 @@
+'use client';
+
+import { XIcon } from 'lucide-react';
+import type { Project } from '@/lib/kb';
+import { useI18n } from '@/components/I18nProvider';
+
+interface ProjectCardProps {
+  project: Project;
+  onClose: () => void;
+  onAsk?: (project: Project) => void;
+}
+
+export default function ProjectCard({ project, onClose, onAsk }: ProjectCardProps) {
+  const { t } = useI18n();
+  const stack = [...(project.frontend_stack || []), ...(project.backend_stack || [])];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 px-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label={project.name}
+    >
+      <div
+        className="w-full max-w-lg max-h-[85vh] overflow-y-auto rounded-2xl border border-gray-700 bg-[#212121] p-6 text-gray-100"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-start justify-between gap-4 mb-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white">{project.name}</h2>
+            <p className="text-sm text-gray-400">
+              {[project.category, project.client_name, project.status.replace(/_/g, ' ')].filter(Boolean).join(' • ')}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 rounded hover:bg-gray-700 transition-colors"
+            title={t('project.close')}
+          >
+            <XIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <p className="text-sm text-gray-300 mb-4">{project.goal_summary}</p>
+
+        {stack.length > 0 && (
+          <div className="mb-4">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2">{t('project.stack')}</h3>
+            <div className="flex flex-wrap gap-1.5">
+              {stack.map((tech) => (
+                <span key={tech} className="px-2 py-0.5 rounded-full bg-gray-800 border border-gray-700 text-xs text-gray-300">
+                  {tech}
+                </span>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {project.core_features?.length > 0 && (
+          <div className="mb-4">
+            <h3 className="text-xs font-semibold text-gray-400 uppercase mb-2">{t('project.coreFeatures')}</h3>
+            <ul className="list-disc list-inside text-sm text-gray-300 space-y-1">
+              {project.core_features.map((feature) => (
+                <li key={feature}>{feature}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {project.unique_value && (
+          <p className="text-sm text-gray-400 mb-4">
+            <span className="font-semibold text-gray-300">{t('project.uniqueValue')}</span> {project.unique_value}
+          </p>
+        )}
+
+        {onAsk && (
+          <button
+            onClick={() => onAsk(project)}
+            className="w-full px-4 py-2.5 rounded-lg bg-white text-gray-900 text-sm font-medium hover:bg-gray-200 transition-colors"
+          >
+            {t('project.ask')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,410 @@
+'use client';
+
+// src/hooks/useChatSession.ts
+// One chat conversation on the client: sending, streaming, retries, stopping,
+// branches and persistence. Components render its state and call its actions.
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  ChatMessage,
+  getContextMessages,
+  loadBranch,
+  loadConversation,
+  saveMessage,
+  setActiveLeaf,
+  updateMessage,
+} from '@/lib/conversation-db';
+import { findLatestLeaf } from '@/lib/conversation-tree';
+import { pushConversation } from '@/lib/conversation-sync';
+import { ChatErrorResponse, ChatLimitCode, ChatStreamEvent, readChatEvents } from '@/lib/chat-events';
+import { DEFAULT_LOCALE, Locale, translate } from '@/lib/i18n';
+
+// Failures before the reply starts streaming (network, gateway) are retried
+const MAX_RETRIES = 2;
+const RETRY_DELAY_MS = 1000;
+const RETRYABLE_STATUSES = [502, 503, 504];
+
+export interface ChatSessionOptions {
+  /** Project the conversation is about; sent with every request */
+  projectId?: string;
+  /** Interface language; the assistant falls back to it when a message's language is unclear */
+  locale?: Locale;
+  /** Called whenever messages of a conversation were stored (refresh lists, titles, …) */
+  onStored?: (conversationId: string) => void;
+}
+
+export interface ChatSession {
+  /** Messages on the shown branch, including the reply being streamed */
+  messages: ChatMessage[];
+  /** Alternatives for messages on the shown branch (see src/lib/conversation-tree.ts) */
+  siblings: Record<string, string[]>;
+  loading: boolean;
+  /** Show a conversation now and return its messages */
+  open: (conversationId: string) => Promise<ChatMessage[]>;
+  send: (content: string, target: { conversationId: string; projectId?: string }) => Promise<void>;
+  /** Answer the last question again; the previous answer stays as a branch */
+  regenerate: () => Promise<void>;
+  /** Send an edited question as a new branch next to the original */
+  editAndResend: (original: ChatMessage, content: string) => Promise<void>;
+  /** Show the previous/next alternative of a message */
+  switchBranch: (message: ChatMessage, offset: number) => Promise<void>;
+  /** Store a message that isn't a model reply (e.g. the booking form) */
+  appendMessage: (message: Omit<ChatMessage, 'id'>) => Promise<void>;
+  updateMessageAt: (index: number, update: (message: ChatMessage) => ChatMessage) => Promise<void>;
+  /** Stop the reply being streamed, keeping what arrived so far */
+  stop: () => void;
+}
+
+/**
+ * Fold one stream event into the assistant message being built
+ */
+function applyChatEvent(msg: ChatMessage, event: ChatStreamEvent): ChatMessage {
+  switch (event.type) {
+    case 'start':
+      return { ...msg, model: event.model };
+    case 'delta':
+      return { ...msg, content: msg.content + event.content };
+    case 'usage':
+      return { ...msg, usage: event.usage };
+    case 'metrics':
+      return { ...msg, costUSD: event.costUSD, latencyMs: event.latencyMs };
+    case 'citation':
+      return { ...msg, citations: [...(msg.citations || []), event.citation] };
+    case 'lead_form':
+      return { ...msg, leadForm: { prefill: event.prefill } };
+    case 'refusal':
+      return { ...msg, status: 'refused', content: event.message };
+    case 'error':
+      return { ...msg, status: 'error', error: event.message };
+    case 'done': {
+      const signed = event.signature ? { ...msg, replySignature: event.signature } : msg;
+      return signed.status ? signed : { ...signed, status: 'complete' };
+    }
+    default:
+      return msg;
+  }
+}
+
+/**
+ * Attach a new rolling summary to the last message it covers
+ */
+async function storeSummary(sent: ChatMessage[], event: Extract<ChatStreamEvent, { type: 'summary' }>) {
+  const boundary = sent[event.summarizedCount - 1];
+  if (boundary?.id !== undefined) {
+    await updateMessage({ ...boundary, summary: event.content, summarySignature: event.signature });
+  }
+}
+
+function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Fold the reply stream into the assistant message, reporting every update.
+ * If the visitor stops the reply, the text received so far is kept and
+ * flagged as stopped.
+ */
+async function readAssistantReply(
+  body: ReadableStream<Uint8Array>,
+  msg: ChatMessage,
+  sent: ChatMessage[],
+  onUpdate: (msg: ChatMessage) => void
+): Promise<ChatMessage> {
+  try {
+    for await (const event of readChatEvents(body)) {
+      if (event.type === 'summary') {
+        await storeSummary(sent, event);
+      }
+      msg = applyChatEvent(msg, event);
+      onUpdate(msg);
+    }
+  } catch (error) {
+    if (!isAbortError(error)) throw error;
+    msg = { ...msg, status: 'complete', stopped: true };
+    onUpdate(msg);
+  }
+  return msg;
+}
+
+/**
+ * Mark a message whose stream ended without a `done` event as failed
+ */
+function finalizeAssistantMessage(msg: ChatMessage): ChatMessage {
+  if (msg.status) return msg;
+  return { ...msg, status: 'error', error: 'The connection was lost before the response finished.' };
+}
+
+/** /api/chat refused the request before streaming (limits, bad request, provider down) */
+class ChatRequestError extends Error {
+  constructor(message: string, public status: number, public code?: ChatLimitCode, public retryAfter?: number) {
+    super(message);
+    this.name = 'ChatRequestError';
+  }
+}
+
+async function readChatError(res: Response): Promise<ChatRequestError> {
+  try {
+    const body: ChatErrorResponse = await res.json();
+    return new ChatRequestError(body.error || 'Failed to get response', res.status, body.code, body.retryAfter);
+  } catch {
+    return new ChatRequestError('Failed to get response', res.status);
+  }
+}
+
+/**
+ * Chat bubble text for a failed request, in the visitor's language. Limit
+ * errors are the visitor's to act on, so they get a friendly note; anything
+ * else (provider outages, configuration) is the operator's and shows only a
+ * generic message, with the details in the console.
+ */
+function errorContent(error: any, locale: Locale): string {
+  if (error instanceof ChatRequestError && error.code) {
+    switch (error.code) {
+      case 'request_too_large':
+        return `⏳ ${translate(locale, 'messages.tooLong')}`;
+      case 'rate_limited':
+        return `⏳ ${translate(locale, 'messages.rateLimited', { seconds: error.retryAfter ?? 10 })}`;
+      case 'daily_budget_exceeded':
+        return `⏳ ${translate(locale, 'messages.dailyLimit')}`;
+    }
+  }
+  console.error('Chat request failed:', error);
+  return `❌ ${translate(locale, 'messages.failed')}`;
+}
+
+/**
+ * POST to /api/chat, retrying network failures and gateway errors with a
+ * growing delay. Errors the server reported deliberately are not retried.
+ */
+async function fetchReply(body: object, signal: AbortSignal): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetch('/api/chat', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+      });
+      if (res.ok) return res;
+      const error = await readChatError(res);
+      if (attempt >= MAX_RETRIES || !RETRYABLE_STATUSES.includes(res.status)) throw error;
+    } catch (error) {
+      if (error instanceof ChatRequestError || isAbortError(error) || attempt >= MAX_RETRIES) throw error;
+    }
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * (attempt + 1)));
+    signal.throwIfAborted();
+  }
+}
+
+export function useChatSession(conversationId: string | null, options: ChatSessionOptions = {}): ChatSession {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [siblings, setSiblings] = useState<Record<string, string[]>>({});
+  const [loading, setLoading] = useState(false);
+  // The conversation on screen; replies for another one keep streaming into storage only
+  const shownIdRef = useRef<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Set synchronously, unlike `loading`, so a double submit within one render is caught
+  const busyRef = useRef(false);
+
+  const showBranch = async (id: string): Promise<ChatMessage[]> => {
+    const branch = await loadBranch(id);
+    if (shownIdRef.current === id) {
+      setMessages(branch.messages);
+      setSiblings(branch.siblings);
+    }
+    return branch.messages;
+  };
+
+  const open = async (id: string): Promise<ChatMessage[]> => {
+    shownIdRef.current = id;
+    return showBranch(id);
+  };
+
+  // Follow the conversation chosen by the component
+  useEffect(() => {
+    if (conversationId === shownIdRef.current) return;
+    if (conversationId) {
+      void open(conversationId);
+    } else {
+      shownIdRef.current = null;
+      setMessages([]);
+      setSiblings({});
+    }
+  }, [conversationId]);
+
+  const stored = (id: string) => {
+    options.onStored?.(id);
+    void pushConversation(id);
+  };
+
+  /**
+   * Run one send/regenerate/edit at a time; `loading` is reset even when
+   * saving to IndexedDB fails
+   */
+  const exclusive = async (task: () => Promise<void>) => {
+    if (busyRef.current) return;
+    busyRef.current = true;
+    setLoading(true);
+    try {
+      await task();
+    } finally {
+      busyRef.current = false;
+      setLoading(false);
+    }
+  };
+
+  /**
+   * Stream a new assistant reply at the end of the active branch and store it
+   * (or the error that prevented it)
+   */
+  const requestReply = async (id: string, projectId?: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const showStreaming = (msg: ChatMessage) => {
+      if (shownIdRef.current !== id) return;
+      setMessages(m => [...m.slice(0, -1), msg]);
+    };
+
+    try {
+      // Latest summary plus the messages after it; the server folds older turns into a new summary when needed
+      const context = await getContextMessages(id);
+      const res = await fetchReply({
+        messages: context.messages.map(({ role, content }) => ({ role, content })),
+        summary: context.summary,
+        summarySignature: context.summarySignature,
+        conversationId: id,
+        projectId,
+        locale: options.locale,
+      }, controller.signal);
+
+      if (!res.body) throw new Error('No response body');
+
+      let assistantMsg: ChatMessage = {
+        conversationId: id,
+        role: 'assistant',
+        content: '',
+        ts: Date.now(),
+      };
+      if (shownIdRef.current === id) {
+        setMessages(m => [...m, assistantMsg]);
+      }
+      assistantMsg = await readAssistantReply(res.body, assistantMsg, context.messages, showStreaming);
+
+      // Save complete, stopped or failed assistant message with its metadata
+      await saveMessage(finalizeAssistantMessage(assistantMsg));
+    } catch (error: any) {
+      // Stopped before the reply started: keep the question without an answer
+      if (!isAbortError(error)) {
+        await saveMessage({
+          conversationId: id,
+          role: 'assistant',
+          content: errorContent(error, options.locale ?? DEFAULT_LOCALE),
+          ts: Date.now(),
+        });
+      }
+    } finally {
+      await showBranch(id);
+    }
+    stored(id);
+  };
+
+  const send: ChatSession['send'] = async (content, target) => {
+    const text = content.trim();
+    if (!text) return;
+    const id = target.conversationId;
+    const projectId = target.projectId ?? options.projectId;
+    await exclusive(async () => {
+      if (shownIdRef.current !== id) {
+        await open(id);
+      }
+
+      const userMsg: ChatMessage = {
+        conversationId: id,
+        role: 'user',
+        content: text,
+        ts: Date.now(),
+      };
+      // Show and save the question immediately
+      setMessages(m => [...m, userMsg]);
+      await saveMessage(userMsg, { projectId });
+      await requestReply(id, projectId);
+    });
+  };
+
+  const regenerate = async () => {
+    const question = messages[messages.length - 2];
+    if (question?.role !== 'user' || !question.uid) return;
+    await exclusive(async () => {
+      await setActiveLeaf(question.conversationId, question.uid!);
+      await showBranch(question.conversationId);
+      await requestReply(question.conversationId, options.projectId);
+    });
+  };
+
+  const editAndResend = async (original: ChatMessage, content: string) => {
+    const text = content.trim();
+    if (!text || text === original.content) return;
+    await exclusive(async () => {
+      await saveMessage(
+        {
+          conversationId: original.conversationId,
+          role: 'user',
+          content: text,
+          ts: Date.now(),
+          parentUid: original.parentUid ?? null,
+        },
+        { projectId: options.projectId }
+      );
+      await showBranch(original.conversationId);
+      await requestReply(original.conversationId, options.projectId);
+    });
+  };
+
+  const switchBranch = async (message: ChatMessage, offset: number) => {
+    const group = message.uid ? siblings[message.uid] : undefined;
+    const target = group?.[group.indexOf(message.uid!) + offset];
+    if (busyRef.current || !target) return;
+    // Continue where that branch was last left
+    const all = await loadConversation(message.conversationId);
+    await setActiveLeaf(message.conversationId, findLatestLeaf(all, target));
+    await showBranch(message.conversationId);
+  };
+
+  const appendMessage = async (message: Omit<ChatMessage, 'id'>) => {
+    if (shownIdRef.current !== message.conversationId) {
+      await open(message.conversationId);
+    }
+    await saveMessage(message, { projectId: options.projectId });
+    await showBranch(message.conversationId);
+    stored(message.conversationId);
+  };
+
+  const updateMessageAt = async (index: number, update: (message: ChatMessage) => ChatMessage) => {
+    const msg = messages[index];
+    if (!msg) return;
+    const updated = update(msg);
+    setMessages(m => m.map((item, i) => (i === index ? updated : item)));
+    if (updated.id !== undefined) {
+      await updateMessage(updated);
+      void pushConversation(updated.conversationId);
+    }
+  };
+
+  const stop = () => {
+    abortRef.current?.abort();
+  };
+
+  return {
+    messages,
+    siblings,
+    loading,
+    open,
+    send,
+    regenerate,
+    editAndResend,
+    switchBranch,
+    appendMessage,
+    updateMessageAt,
+    stop,
+  };
+}
@@ -0,0 +1,95 @@
+// src/lib/admin-auth.ts
+// Password login for the /admin section using an HMAC-signed session cookie.
+// Each token carries a random id so logging out can revoke it before it expires.
+// This file is only used on the server side
+
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { cookies } from 'next/headers';
+import { redirect } from 'next/navigation';
+import { getRateLimitStore } from '@/lib/rate-limit';
+
+export const ADMIN_COOKIE = 'axp_admin';
+export const ADMIN_SESSION_TTL = 60 * 60 * 12; // 12 hours, in seconds
+
+function getSecret(): string | null {
+  return process.env.ADMIN_PASSWORD || null;
+}
+
+function sign(value: string, secret: string): string {
+  return createHmac('sha256', secret).update(value).digest('hex');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  // Hash first so inputs of different lengths can be compared in constant time
+  const digestA = createHash('sha256').update(a).digest();
+  const digestB = createHash('sha256').update(b).digest();
+  return timingSafeEqual(digestA, digestB);
+}
+
+/**
+ * Whether admin login is configured at all (ADMIN_PASSWORD set)
+ */
+export function isAdminEnabled(): boolean {
+  return getSecret() !== null;
+}
+
+export function checkAdminPassword(password: unknown): boolean {
+  const secret = getSecret();
+  return !!secret && typeof password === 'string' && safeEqual(password, secret);
+}
+
+export function createAdminToken(): string {
+  const secret = getSecret();
+  if (!secret) {
+    throw new Error('ADMIN_PASSWORD is not set in server environment');
+  }
+  const payload = `${Date.now() + ADMIN_SESSION_TTL * 1000}.${randomBytes(16).toString('hex')}`;
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+/**
+ * Parse a token with a valid signature; says nothing about expiry or revocation
+ */
+function parseAdminToken(token: string | undefined): { expires: number; tokenId: string } | null {
+  const secret = getSecret();
+  if (!secret || !token) return null;
+
+  const [expires, tokenId, signature] = token.split('.');
+  if (!expires || !tokenId || !signature || !safeEqual(signature, sign(`${expires}.${tokenId}`, secret))) return null;
+  return { expires: Number(expires), tokenId };
+}
+
+export async function verifyAdminToken(token: string | undefined): Promise<boolean> {
+  const parsed = parseAdminToken(token);
+  if (!parsed || parsed.expires < Date.now()) return false;
+  return !(await getRateLimitStore().get<boolean>(`admin-revoked:${parsed.tokenId}`));
+}
+
+/**
+ * Invalidate a token until it would have expired anyway
+ */
+export async function revokeAdminToken(token: string | undefined): Promise<void> {
+  const parsed = parseAdminToken(token);
+  const remainingMs = parsed ? parsed.expires - Date.now() : 0;
+  if (parsed && remainingMs > 0) {
+    await getRateLimitStore().set(`admin-revoked:${parsed.tokenId}`, true, remainingMs);
+  }
+}
+
+/**
+ * Check the admin cookie of the current request (server components and route handlers)
+ */
+export async function isAdmin(): Promise<boolean> {
+  const store = await cookies();
+  return verifyAdminToken(store.get(ADMIN_COOKIE)?.value);
+}
+
+/**
+ * Send visitors without a valid admin cookie to the login page. Every admin
+ * page calls this itself: layouts don't guard the pages rendered inside them.
+ */
+export async function requireAdmin(): Promise<void> {
+  if (!(await isAdmin())) {
+    redirect('/admin/login');
+  }
+}
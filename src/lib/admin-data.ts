@@ -0,0 +1,44 @@
+// src/lib/admin-data.ts
+// Read models for the /admin pages
+// This file is only used on the server side
+
+import type { Project } from '@/lib/kb';
+import { listAllConversations, StoredConversation } from '@/lib/conversation-store';
+import { findConversationProject } from '@/lib/projects';
+import { loadKnowledge } from '@/lib/retrieval';
+import { findUnansweredQuestions, UnansweredQuestion } from '@/lib/unanswered';
+import { getCostByConversation } from '@/lib/usage-store';
+
+export interface ConversationOverview {
+  conversationId: string;
+  sessionId: string;
+  projectName?: string;
+  messageCount: number;
+  firstMessage?: string;
+  updatedAt: number;
+  unanswered: UnansweredQuestion[];
+  /** Recorded model cost in USD */
+  costUSD: number;
+}
+
+function toOverview(conversation: StoredConversation, projects: Project[], costs: Map<string, number>): ConversationOverview {
+  return {
+    conversationId: conversation.conversationId,
+    sessionId: conversation.sessionId,
+    projectName: findConversationProject(projects, conversation.conversationId)?.name,
+    messageCount: conversation.messages.length,
+    firstMessage: conversation.messages.find(m => m.role === 'user')?.content.substring(0, 120),
+    updatedAt: conversation.updatedAt,
+    unanswered: findUnansweredQuestions(conversation.messages),
+    costUSD: costs.get(`${conversation.sessionId}:${conversation.conversationId}`) || 0,
+  };
+}
+
+export async function getConversationOverviews(): Promise<ConversationOverview[]> {
+  const [{ projects }, conversations, costs] = await Promise.all([
+    loadKnowledge(),
+    listAllConversations(),
+    getCostByConversation(),
+  ]);
+  return conversations.map(conversation => toOverview(conversation, projects, costs));
+}
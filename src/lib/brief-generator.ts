@@ -0,0 +1,181 @@
+// src/lib/brief-generator.ts
+// Builds a structured project brief from a conversation
+// This file is only used on the server side
+
+import type { BriefPhase, ComparableProject, ProjectBrief } from '@/lib/brief';
+import { getProvider, LLMMessage } from '@/lib/providers';
+import { loadKnowledge, retrieve } from '@/lib/retrieval';
+import { findProjectById } from '@/lib/projects';
+import { recordUsage } from '@/lib/usage-store';
+import { recordTokenUsage } from '@/lib/chat-limits';
+
+// How many comparable projects ground the budget estimate
+const MAX_COMPARABLES = 3;
+
+const BRIEF_PROMPT = `You turn a sales conversation between a prospect and AuraXPro AI into a concise project brief.
+
+Respond with a single JSON object and nothing else, using exactly these keys:
+{
+  "title": string,            // short project name
+  "summary": string,          // 2-3 sentences
+  "goals": string[],
+  "features": string[],
+  "suggestedStack": string[], // pick only from the allowed stack list
+  "timeline": [{ "phase": string, "duration": string }], // follow AuraXPro's process
+  "budgetRationale": string,  // one sentence relating the scope to the comparable budgets
+  "openQuestions": string[]   // what still needs clarifying on a call
+}
+
+Only include facts stated in the conversation; leave arrays empty rather than guessing.`;
+
+interface BriefDraft {
+  title?: string;
+  summary?: string;
+  goals?: string[];
+  features?: string[];
+  suggestedStack?: string[];
+  timeline?: BriefPhase[];
+  budgetRationale?: string;
+  openQuestions?: string[];
+}
+
+/**
+ * Parse "$35,000" or "$25,000 - $35,000" into a numeric range
+ */
+export function parseBudget(budget: string): { low: number; high: number } | null {
+  const amounts = (budget.match(/\$?\d[\d,]*(?:\.\d+)?\s*k?/gi) || [])
+    .map(raw => {
+      const value = parseFloat(raw.replace(/[$,\s]/g, ''));
+      return /k$/i.test(raw.trim()) ? value * 1000 : value;
+    })
+    .filter(value => !Number.isNaN(value) && value > 0);
+
+  if (amounts.length === 0) return null;
+  return { low: Math.min(...amounts), high: Math.max(...amounts) };
+}
+
+function stringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function parseDraft(content: string): BriefDraft | null {
+  // Models sometimes wrap JSON in prose or code fences; take the outermost object
+  const start = content.indexOf('{');
+  const end = content.lastIndexOf('}');
+  if (start === -1 || end <= start) return null;
+  try {
+    return JSON.parse(content.slice(start, end + 1));
+  } catch {
+    return null;
+  }
+}
+
+async function findComparables(conversationText: string): Promise<ComparableProject[]> {
+  const { projects } = await loadKnowledge();
+  const chunks = await retrieve(conversationText, { k: 10 });
+  const comparables: ComparableProject[] = [];
+
+  for (const chunk of chunks) {
+    if (chunk.kind !== 'project' || comparables.length >= MAX_COMPARABLES) continue;
+    const record = chunk.projectId ? findProjectById(projects, chunk.projectId) : undefined;
+    if (!record?.budget || !parseBudget(record.budget)) continue;
+    comparables.push({
+      name: chunk.title,
+      slug: record.slug,
+      budget: record.budget,
+    });
+  }
+
+  return comparables;
+}
+
+/**
+ * Generate a brief for the given conversation, charging the tokens to the
+ * visitor's daily budget. Falls back to a KB-only skeleton when the model
+ * response can't be parsed (e.g. the mock provider).
+ */
+export async function generateBrief(
+  messages: LLMMessage[],
+  visitor: { sessionKey: string; ip: string }
+): Promise<ProjectBrief> {
+  const { kb } = await loadKnowledge();
+  const transcript = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(m => `${m.role === 'user' ? 'Prospect' : 'AuraXPro AI'}: ${m.content}`)
+    .join('\n\n');
+  const prospectText = messages.filter(m => m.role === 'user').map(m => m.content).join('\n');
+
+  const comparables = await findComparables(prospectText);
+  const ranges = comparables.map(p => parseBudget(p.budget)!);
+
+  const provider = getProvider();
+  const startedAt = Date.now();
+  const response = await provider.complete({
+    temperature: 0.2,
+    messages: [
+      { role: 'system', content: BRIEF_PROMPT },
+      {
+        role: 'user',
+        content: [
+          `Allowed stack: ${kb.core_stack.join(', ')}`,
+          `AuraXPro process: ${kb.process.join(' → ')}`,
+          `Comparable project budgets: ${comparables.map(p => `${p.name}: ${p.budget}`).join('; ') || 'none'}`,
+          '',
+          'Conversation:',
+          transcript,
+        ].join('\n'),
+      },
+    ],
+  });
+
+  const promptTokens = response.usage?.promptTokens ?? 0;
+  const completionTokens = response.usage?.completionTokens ?? 0;
+  await Promise.all([
+    recordTokenUsage(visitor.sessionKey, visitor.ip, promptTokens + completionTokens).catch(error => {
+      console.error('Failed to record token usage:', error);
+    }),
+    recordUsage({
+      kind: 'brief',
+      provider: provider.name,
+      model: response.model,
+      sessionKey: visitor.sessionKey,
+      promptTokens,
+      completionTokens,
+      latencyMs: Date.now() - startedAt,
+      status: 200,
+    }),
+  ]);
+
+  const draft = parseDraft(response.content) || {};
+  const allowedStack = new Set(kb.core_stack.map(tech => tech.toLowerCase()));
+  const suggestedStack = stringArray(draft.suggestedStack).filter(tech => allowedStack.has(tech.toLowerCase()));
+  const timeline = Array.isArray(draft.timeline)
+    ? draft.timeline.filter(p => typeof p?.phase === 'string' && typeof p?.duration === 'string')
+    : [];
+  const firstUserMessage = messages.find(m => m.role === 'user')?.content || '';
+
+  const budget = ranges.length > 0
+    ? {
+        low: Math.min(...ranges.map(r => r.low)),
+        high: Math.max(...ranges.map(r => r.high)),
+        currency: 'USD' as const,
+        rationale: draft.budgetRationale ||
+          `Based on ${comparables.length} comparable AuraXPro project${comparables.length === 1 ? '' : 's'}.`,
+      }
+    : null;
+
+  return {
+    title: draft.title || 'Project Brief',
+    summary: draft.summary || firstUserMessage.slice(0, 500),
+    goals: stringArray(draft.goals),
+    features: stringArray(draft.features),
+    suggestedStack: suggestedStack.length > 0 ? suggestedStack : kb.core_stack,
+    timeline: timeline.length > 0
+      ? timeline
+      : kb.process.map(step => ({ phase: step, duration: 'TBD' })),
+    budget,
+    comparableProjects: comparables,
+    openQuestions: stringArray(draft.openQuestions),
+    generatedAt: Date.now(),
+  };
+}
@@ -0,0 +1,68 @@
+// src/lib/brief.ts
+// Project brief types and Markdown rendering, shared by /api/brief and the UI
+
+export interface BriefPhase {
+  phase: string;
+  duration: string;
+}
+
+export interface ComparableProject {
+  name: string;
+  slug: string;
+  budget: string;
+}
+
+export interface ProjectBrief {
+  title: string;
+  summary: string;
+  goals: string[];
+  features: string[];
+  suggestedStack: string[];
+  timeline: BriefPhase[];
+  budget: {
+    low: number;
+    high: number;
+    currency: 'USD';
+    rationale: string;
+  } | null;
+  comparableProjects: ComparableProject[];
+  openQuestions: string[];
+  generatedAt: number;
+}
+
+export function formatUSD(amount: number): string {
+  return `$${Math.round(amount).toLocaleString('en-US')}`;
+}
+
+function section(title: string, items: string[]): string {
+  if (items.length === 0) return '';
+  return `## ${title}\n\n${items.map(item => `- ${item}`).join('\n')}\n`;
+}
+
+/**
+ * Render a brief as a standalone Markdown document
+ */
+export function briefToMarkdown(brief: ProjectBrief): string {
+  const parts = [
+    `# ${brief.title}\n`,
+    `_Generated by AuraXPro AI on ${new Date(brief.generatedAt).toLocaleDateString()}_\n`,
+    `${brief.summary}\n`,
+    section('Goals', brief.goals),
+    section('Key Features', brief.features),
+    section('Suggested Stack', brief.suggestedStack),
+    section('Timeline', brief.timeline.map(p => `**${p.phase}** — ${p.duration}`)),
+  ];
+
+  if (brief.budget) {
+    parts.push(
+      `## Rough Budget\n\n${formatUSD(brief.budget.low)} – ${formatUSD(brief.budget.high)} (${brief.budget.currency})\n\n${brief.budget.rationale}\n`
+    );
+  }
+
+  parts.push(
+    section('Comparable Projects', brief.comparableProjects.map(p => `${p.name} (${p.budget})`)),
+    section('Open Questions', brief.openQuestions)
+  );
+
+  return parts.filter(Boolean).join('\n');
+}
@@ -0,0 +1,87 @@
+// src/lib/chat-events.ts
+// Typed NDJSON event protocol for /api/chat, shared by the route and the client
+
+import type { LeadPrefill } from '@/lib/leads';
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatCitation {
+  /** Chunk id, e.g. "kb:faq:0" or "experience:proj-001" */
+  id: string;
+  /** Inline marker used in the answer text, e.g. "S1" */
+  marker: string;
+  source: 'kb' | 'experience' | 'projects';
+  kind: string;
+  title: string;
+  projectId?: string;
+  index?: number;
+}
+
+/** Why the input guard refused a request */
+export type ChatRefusalReason = 'injection' | 'off_topic' | 'moderation';
+
+export type ChatStreamEvent =
+  | { type: 'start'; provider: string; model: string }
+  | { type: 'delta'; content: string }
+  | { type: 'citation'; citation: ChatCitation }
+  | { type: 'usage'; usage: ChatUsage }
+  | { type: 'lead_form'; prefill: LeadPrefill }
+  | { type: 'summary'; content: string; summarizedCount: number; signature: string }
+  | { type: 'metrics'; latencyMs: number; costUSD: number }
+  | { type: 'refusal'; reason: ChatRefusalReason; message: string }
+  | { type: 'error'; message: string; status?: number; code?: string }
+  | { type: 'done'; finishReason: 'stop' | 'error' | 'refused'; signature?: string };
+
+/** Machine-readable reasons /api/chat rejects a request before streaming */
+export type ChatLimitCode = 'request_too_large' | 'rate_limited' | 'daily_budget_exceeded';
+
+/** JSON body of a non-streaming /api/chat error response */
+export interface ChatErrorResponse {
+  error: string;
+  code?: ChatLimitCode;
+  /** Seconds until the visitor can try again */
+  retryAfter?: number;
+}
+
+export const CHAT_STREAM_CONTENT_TYPE = 'application/x-ndjson; charset=utf-8';
+
+/**
+ * Serialize one event as an NDJSON line
+ */
+export function encodeChatEvent(event: ChatStreamEvent): string {
+  return JSON.stringify(event) + '\n';
+}
+
+/**
+ * Parse an NDJSON response body into chat events
+ */
+export async function* readChatEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      const line = buffer.slice(0, newline).trim();
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+      if (line) {
+        yield JSON.parse(line) as ChatStreamEvent;
+      }
+    }
+  }
+
+  buffer += decoder.decode();
+  if (buffer.trim()) {
+    yield JSON.parse(buffer.trim()) as ChatStreamEvent;
+  }
+}
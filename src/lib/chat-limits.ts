@@ -0,0 +1,198 @@
+// src/lib/chat-limits.ts
+// Abuse protection for /api/chat and /api/brief: request size limits, rate
+// limits and a daily token budget per session and IP (titles count towards it too)
+// This file is only used on the server side
+
+import type { ChatErrorResponse, ChatLimitCode } from '@/lib/chat-events';
+import { getRateLimitStore, takeToken } from '@/lib/rate-limit';
+import { Locale, isLocale } from '@/lib/i18n';
+
+// Room for a full replayed history; its size is trimmed below, not rejected
+export const MAX_BODY_BYTES = 1_000_000;
+export const MAX_MESSAGES = 50;
+export const MAX_MESSAGE_CHARS = 8_000;
+export const MAX_TOTAL_CHARS = 60_000;
+export const MAX_SUMMARY_CHARS = 8_000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0 ? value : fallback;
+}
+
+export class ChatLimitError extends Error {
+  constructor(
+    message: string,
+    public status: 413 | 429,
+    public code: ChatLimitCode,
+    public retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'ChatLimitError';
+  }
+}
+
+export interface ChatRequestMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Keep the newest turns within the message and character limits. Replayed
+ * turns over the per-message limit are cut short; the latest turn is always kept.
+ */
+function trimHistory(messages: ChatRequestMessage[]): ChatRequestMessage[] {
+  const kept: ChatRequestMessage[] = [];
+  let total = 0;
+  for (let i = messages.length - 1; i >= 0 && kept.length < MAX_MESSAGES; i--) {
+    const { role, content } = messages[i];
+    const clipped = content.length > MAX_MESSAGE_CHARS ? `${content.slice(0, MAX_MESSAGE_CHARS)}…` : content;
+    if (kept.length > 0 && total + clipped.length > MAX_TOTAL_CHARS) break;
+    total += clipped.length;
+    kept.unshift({ role, content: clipped });
+  }
+  return kept;
+}
+
+/**
+ * Parse and size-check the raw request body. Returns null when it is malformed.
+ * Only user and assistant turns with string content are accepted, so clients
+ * can't inject system messages. Only the new user message can make the request
+ * too large; older turns the visitor can't change are trimmed instead, and
+ * `droppedCount` says how many of the oldest ones were left out.
+ */
+export function parseChatRequest(
+  raw: string
+): {
+  messages: ChatRequestMessage[];
+  droppedCount: number;
+  summary?: string;
+  summarySignature?: string;
+  projectId?: string;
+  conversationId?: string;
+  locale?: Locale;
+} | null {
+  if (raw.length > MAX_BODY_BYTES) {
+    throw new ChatLimitError('Your message is too long. Please shorten it and try again.', 413, 'request_too_large');
+  }
+
+  let body: any;
+  try {
+    body = JSON.parse(raw);
+  } catch {
+    body = null;
+  }
+
+  const messages = Array.isArray(body?.messages) ? body.messages : [];
+  const valid = messages.every(
+    (msg: any) => (msg?.role === 'user' || msg?.role === 'assistant') && typeof msg.content === 'string'
+  );
+  if (messages.length === 0 || !valid) {
+    return null;
+  }
+
+  const latest: ChatRequestMessage = messages[messages.length - 1];
+  if (latest.role === 'user' && latest.content.length > MAX_MESSAGE_CHARS) {
+    throw new ChatLimitError('Your message is too long. Please shorten it and try again.', 413, 'request_too_large');
+  }
+
+  const kept = trimHistory(messages);
+  return {
+    messages: kept,
+    droppedCount: messages.length - kept.length,
+    // Summaries this server wrote never exceed the limit, so a longer one is simply dropped
+    summary: typeof body.summary === 'string' && body.summary.trim() && body.summary.length <= MAX_SUMMARY_CHARS
+      ? body.summary
+      : undefined,
+    summarySignature: typeof body.summarySignature === 'string' ? body.summarySignature : undefined,
+    projectId: typeof body.projectId === 'string' && body.projectId.length <= 200 ? body.projectId : undefined,
+    conversationId: typeof body.conversationId === 'string' && body.conversationId.length <= 200
+      ? body.conversationId
+      : undefined,
+    locale: isLocale(body.locale) ? body.locale : undefined,
+  };
+}
+
+/**
+ * Enforce the per-IP and per-session request rates (token buckets refilled
+ * evenly over a minute)
+ */
+export async function checkRateLimits(ip: string, sessionKey: string): Promise<void> {
+  const perIp = numberFromEnv('RATE_LIMIT_IP_PER_MINUTE', 20);
+  const perSession = numberFromEnv('RATE_LIMIT_SESSION_PER_MINUTE', 10);
+
+  const results = await Promise.all([
+    perIp > 0 ? takeToken(`ip:${ip}`, { capacity: perIp, refillPerSecond: perIp / 60 }) : null,
+    perSession > 0 ? takeToken(`session:${sessionKey}`, { capacity: perSession, refillPerSecond: perSession / 60 }) : null,
+  ]);
+
+  const limited = results.filter(result => result && !result.allowed);
+  if (limited.length > 0) {
+    const retryAfter = Math.max(...limited.map(result => result!.retryAfter));
+    throw new ChatLimitError(
+      `You're sending messages too quickly. Please wait ${retryAfter} second${retryAfter === 1 ? '' : 's'} and try again.`,
+      429,
+      'rate_limited',
+      retryAfter
+    );
+  }
+}
+
+function budgetKey(key: string): string {
+  return `tokens:${key}:${new Date().toISOString().slice(0, 10)}`;
+}
+
+function secondsUntilMidnightUTC(): number {
+  const now = new Date();
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+/**
+ * Reject the request when the session (CHAT_DAILY_TOKEN_BUDGET) or its IP
+ * (CHAT_DAILY_IP_TOKEN_BUDGET) has used up today's token budget; 0 disables
+ * either. The IP budget stops visitors from starting fresh sessions to get a
+ * new allowance. Budgets reset at midnight UTC.
+ */
+export async function checkDailyBudget(sessionKey: string, ip: string): Promise<void> {
+  const budgets: Array<[string, number]> = [
+    [sessionKey, numberFromEnv('CHAT_DAILY_TOKEN_BUDGET', 100_000)],
+    [`ip:${ip}`, numberFromEnv('CHAT_DAILY_IP_TOKEN_BUDGET', 500_000)],
+  ];
+  const store = getRateLimitStore();
+  const used = await Promise.all(budgets.map(([key]) => store.get<number>(budgetKey(key))));
+  if (budgets.some(([, budget], i) => budget > 0 && (used[i] || 0) >= budget)) {
+    throw new ChatLimitError(
+      "You've reached today's chat limit. Please come back tomorrow, or book a call and we'll pick it up from here.",
+      429,
+      'daily_budget_exceeded',
+      secondsUntilMidnightUTC()
+    );
+  }
+}
+
+/**
+ * Count tokens spent by a session and its IP towards today's budgets
+ */
+export async function recordTokenUsage(sessionKey: string, ip: string, tokens: number): Promise<void> {
+  if (tokens <= 0) return;
+  const store = getRateLimitStore();
+  // Visitors without a session are already keyed by their IP
+  const keys = Array.from(new Set([sessionKey, `ip:${ip}`])).map(budgetKey);
+  for (const key of keys) {
+    const used = (await store.get<number>(key)) || 0;
+    await store.set(key, used + tokens, DAY_MS);
+  }
+}
+
+export function limitErrorResponse(error: ChatLimitError): Response {
+  const body: ChatErrorResponse = { error: error.message, code: error.code, retryAfter: error.retryAfter };
+  return new Response(JSON.stringify(body), {
+    status: error.status,
+    headers: {
+      'Content-Type': 'application/json',
+      ...(error.retryAfter ? { 'Retry-After': String(error.retryAfter) } : {}),
+    },
+  });
+}
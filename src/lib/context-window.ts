@@ -0,0 +1,155 @@
+// src/lib/context-window.ts
+// Fits knowledge and conversation history into the model's token budget,
+// folding older turns into a rolling summary
+// This file is only used on the server side
+
+import type { LLMProvider, TokenUsage } from '@/lib/providers';
+import { ChatRequestMessage, MAX_SUMMARY_CHARS } from '@/lib/chat-limits';
+import { chunksToContext, RetrievedChunk } from '@/lib/retrieval';
+import { countMessageTokens, countTokens } from '@/lib/tokens';
+import { hasValidSignature, signValue } from '@/lib/session';
+
+// Summarize once the verbatim history grows past this many messages, even if it fits
+const MAX_HISTORY_MESSAGES = 30;
+
+// After summarizing, keep at most this many recent messages verbatim so the
+// next summary is several turns away rather than due on every request
+const KEEP_RECENT_MESSAGES = 10;
+
+const SUMMARY_PROMPT = `You maintain a running summary of a conversation between a prospect and AuraXPro AI, a software agency's assistant.
+
+Merge the previous summary (if any) with the new turns into one concise summary written in the third person. Keep every fact that matters for the project discussion: the prospect's name and company, goals, requirements, features, stack preferences, budget, timeline, decisions made, projects discussed and open questions. Drop small talk. Reply with the summary only.`;
+
+/**
+ * Sign a summary before it is handed to the client for safekeeping
+ */
+export function signSummary(summary: string): string {
+  return signValue('summary', summary);
+}
+
+/**
+ * The client-held summary, if this server produced it. Anything else is
+ * dropped: a client must not be able to put its own text into the context.
+ */
+export function verifySummary(summary: string | undefined, signature: string | undefined): string | undefined {
+  return summary && hasValidSignature('summary', summary, signature) ? summary : undefined;
+}
+
+/**
+ * Pass the summary to the model as a quoted user turn rather than in the
+ * system prompt, so it never carries the weight of instructions
+ */
+export function withSummary(messages: ChatRequestMessage[], summary: string | undefined): ChatRequestMessage[] {
+  if (!summary) return messages;
+  return [
+    { role: 'user', content: `Summary of our earlier conversation, for reference only:\n<summary>\n${summary}\n</summary>` },
+    ...messages,
+  ];
+}
+
+/**
+ * Keep the highest-ranked chunks that fit the knowledge budget. Chunks are
+ * kept as a prefix so citation markers stay aligned with their rank.
+ */
+export function fitChunks(chunks: RetrievedChunk[], budget: number, model: string): RetrievedChunk[] {
+  let end = 0;
+  while (end < chunks.length && countTokens(chunksToContext(chunks.slice(0, end + 1)), model) <= budget) {
+    end++;
+  }
+  return chunks.slice(0, end);
+}
+
+/**
+ * Split the history into turns to summarize and turns to send verbatim. Nothing
+ * is split off while the history fits both the token and message limits.
+ */
+export function splitHistory(
+  messages: ChatRequestMessage[],
+  budget: number,
+  model: string
+): { older: ChatRequestMessage[]; recent: ChatRequestMessage[] } {
+  if (messages.length <= MAX_HISTORY_MESSAGES && countMessageTokens(messages, model) <= budget) {
+    return { older: [], recent: messages };
+  }
+
+  // Fill half the budget from the end; the latest message is always kept
+  let start = messages.length - 1;
+  let used = countMessageTokens(messages.slice(start), model);
+  while (start > 0 && messages.length - start < KEEP_RECENT_MESSAGES) {
+    const next = countMessageTokens([messages[start - 1]], model);
+    if (used + next > budget / 2) break;
+    used += next;
+    start--;
+  }
+  return { older: messages.slice(0, start), recent: messages.slice(start) };
+}
+
+/**
+ * Fold older turns into the previous summary with one model call
+ */
+export async function summarizeTurns(
+  provider: LLMProvider,
+  previousSummary: string | undefined,
+  turns: ChatRequestMessage[],
+  maxTokens: number
+): Promise<{ content: string; usage?: TokenUsage }> {
+  const transcript = turns
+    .map(m => `${m.role === 'user' ? 'Prospect' : 'AuraXPro AI'}: ${m.content}`)
+    .join('\n\n');
+
+  const result = await provider.complete({
+    temperature: 0.2,
+    maxTokens,
+    messages: [
+      { role: 'system', content: SUMMARY_PROMPT },
+      {
+        role: 'user',
+        content: `Previous summary:\n${previousSummary || '(none)'}\n\nNew turns:\n${transcript}`,
+      },
+    ],
+  });
+  return { content: result.content.trim(), usage: result.usage };
+}
+
+export interface ConversationContext {
+  /** Turns sent verbatim */
+  messages: ChatRequestMessage[];
+  /** Summary of everything before `messages` */
+  summary?: string;
+  /** Set when this request produced a new summary covering the first `count` request messages */
+  summarized?: { content: string; count: number; usage?: TokenUsage; latencyMs: number };
+}
+
+/**
+ * Fit the request's history into the budget, summarizing older turns when it
+ * doesn't. If summarizing fails, older turns are dropped instead.
+ */
+export async function buildConversationContext(options: {
+  provider: LLMProvider;
+  model: string;
+  messages: ChatRequestMessage[];
+  summary?: string;
+  historyBudget: number;
+  summaryBudget: number;
+}): Promise<ConversationContext> {
+  const { provider, model, messages, summary, historyBudget, summaryBudget } = options;
+  const { older, recent } = splitHistory(messages, historyBudget, model);
+  if (older.length === 0) {
+    return { messages: recent, summary };
+  }
+
+  const startedAt = Date.now();
+  try {
+    const result = await summarizeTurns(provider, summary, older, summaryBudget);
+    // Clients send the summary back next turn, so it must stay within the request limit
+    const content = result.content.slice(0, MAX_SUMMARY_CHARS);
+    return {
+      messages: recent,
+      summary: content,
+      summarized: { content, count: older.length, usage: result.usage, latencyMs: Date.now() - startedAt },
+    };
+  } catch (error) {
+    console.error('Failed to summarize conversation:', error);
+    return { messages: recent, summary };
+  }
+}
@@ -2,29 +2,152 @@
 // IndexedDB wrapper for conversation persistence using idb package
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import type { ChatCitation, ChatUsage } from '@/lib/chat-events';
+import type { ConversationExport } from '@/lib/conversation-export';
+import { buildBranch, ConversationBranch, legacyMessageUid } from '@/lib/conversation-tree';
+import type { LeadPrefill } from '@/lib/leads';
 
 export interface ChatMessage {
   id?: number;
+  /** Globally unique id used to sync with the server store */
+  uid?: string;
+  /**
+   * uid of the message this one follows (null for a root); messages with the
+   * same parent are alternative branches
+   */
+  parentUid?: string | null;
   conversationId: string;
   role: 'user' | 'assistant' | 'system';
   content: string;
   ts: number;
+  // Assistant-only metadata collected from the response stream
+  status?: 'complete' | 'error' | 'refused';
+  /** Set when the visitor stopped the reply; `content` is what arrived before */
+  stopped?: boolean;
+  error?: string;
+  model?: string;
+  usage?: ChatUsage;
+  /** Estimated cost of generating this reply, in USD */
+  costUSD?: number;
+  latencyMs?: number;
+  citations?: ChatCitation[];
+  /** Server signature of a finished reply; share links only show signed replies */
+  replySignature?: string;
+  // Lead capture form the assistant attached to this message
+  leadForm?: { prefill: LeadPrefill; submitted?: boolean };
+  /** Rolling summary of the conversation up to and including this message */
+  summary?: string;
+  /** Server signature of `summary`; unsigned summaries are ignored by /api/chat */
+  summarySignature?: string;
+}
+
+/**
+ * One row per conversation, kept up to date on every write so the sidebar
+ * never has to scan messages
+ */
+export interface ConversationRecord {
+  conversationId: string;
+  title?: string;
+  /** Set when the title was typed by the visitor rather than generated */
+  titleEdited?: boolean;
+  pinned?: boolean;
+  /** Project the conversation is about, for project chats */
+  projectId?: string;
+  /** Last message of the branch currently shown; the newest message when unset */
+  activeLeafUid?: string;
+  createdAt: number;
+  lastActivity: number;
+  messageCount: number;
+  /** Opening of the first user message, the label until a title exists */
+  firstMessage?: string;
+}
+
+export interface ConversationSearchMatch {
+  messageId?: number;
+  role: ChatMessage['role'];
+  ts: number;
+  /** Excerpt around the first occurrence of the query */
+  snippet: string;
+}
+
+export interface ConversationSearchResult {
+  conversationId: string;
+  titleMatch: boolean;
+  matches: ConversationSearchMatch[];
+  /** Number of matching messages (matches holds at most a few) */
+  matchCount: number;
 }
 
 interface ConversationDBSchema extends DBSchema {
   messages: {
     key: number;
     value: ChatMessage;
-    indexes: { 'by-conversation': string };
+    indexes: {
+      'by-conversation': string;
+      'by-conversation-ts': [string, number];
+    };
+  };
+  conversations: {
+    key: string;
+    value: ConversationRecord;
+    indexes: { 'by-last-activity': number };
   };
 }
 
 const DB_NAME = 'auraxpro-ai-conversations';
-const DB_VERSION = 1;
+// v1: messages store; v2: conversations store and the [conversationId, ts] index;
+// v3: uids for messages saved before they existed
+const DB_VERSION = 3;
 const STORE_NAME = 'messages';
+const CONVERSATIONS_STORE = 'conversations';
+
+// Where v1 kept titles and pins; folded into the conversations store on upgrade
+const LEGACY_PREFS_KEY = 'auraxpro_conversation_prefs_v1';
+
+const FIRST_MESSAGE_LENGTH = 100;
+
+// Characters of context kept on each side of a search match
+const SNIPPET_RADIUS = 40;
+const MAX_MATCHES_PER_CONVERSATION = 3;
 
 let dbInstance: IDBPDatabase<ConversationDBSchema> | null = null;
 
+/** Every message of one conversation, in timestamp order */
+function conversationRange(conversationId: string): IDBKeyRange {
+  return IDBKeyRange.bound([conversationId, -Infinity], [conversationId, Infinity]);
+}
+
+/**
+ * Fold a new message into its conversation's record (creating it if needed)
+ */
+function applyMessage(
+  record: ConversationRecord | undefined,
+  message: Pick<ChatMessage, 'conversationId' | 'role' | 'content' | 'ts'>
+): ConversationRecord {
+  const base: ConversationRecord = record || {
+    conversationId: message.conversationId,
+    createdAt: message.ts,
+    lastActivity: message.ts,
+    messageCount: 0,
+  };
+  return {
+    ...base,
+    createdAt: Math.min(base.createdAt, message.ts),
+    lastActivity: Math.max(base.lastActivity, message.ts),
+    messageCount: base.messageCount + 1,
+    firstMessage: base.firstMessage ?? (message.role === 'user' ? message.content.substring(0, FIRST_MESSAGE_LENGTH) : undefined),
+  };
+}
+
+function readLegacyPrefs(): Record<string, { title?: string; titleEdited?: boolean; pinned?: boolean }> {
+  try {
+    const stored = JSON.parse(localStorage.getItem(LEGACY_PREFS_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch {
+    return {};
+  }
+}
+
 /**
  * Initialize and open the IndexedDB database
  */
@@ -38,9 +161,9 @@ async function getDB(): Promise<IDBPDatabase<ConversationDBSchema>> {
   }
 
   dbInstance = await openDB<ConversationDBSchema>(DB_NAME, DB_VERSION, {
-    upgrade(db) {
-      // Create messages object store
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
+    async upgrade(db, oldVersion, _newVersion, tx) {
+      if (oldVersion < 1) {
+        // Create messages object store
         const store = db.createObjectStore(STORE_NAME, {
           keyPath: 'id',
           autoIncrement: true,
@@ -48,6 +171,42 @@ async function getDB(): Promise<IDBPDatabase<ConversationDBSchema>> {
         // Create index for querying by conversationId
         store.createIndex('by-conversation', 'conversationId');
       }
+
+      if (oldVersion < 2) {
+        tx.objectStore(STORE_NAME).createIndex('by-conversation-ts', ['conversationId', 'ts']);
+        const conversations = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'conversationId' });
+        conversations.createIndex('by-last-activity', 'lastActivity');
+
+        // Build the conversation records from the existing messages, once
+        const records = new Map<string, ConversationRecord>();
+        let cursor = await tx.objectStore(STORE_NAME).index('by-conversation-ts').openCursor();
+        while (cursor) {
+          const message = cursor.value;
+          records.set(message.conversationId, applyMessage(records.get(message.conversationId), message));
+          cursor = await cursor.continue();
+        }
+
+        const prefs = readLegacyPrefs();
+        for (const record of Array.from(records.values())) {
+          const { title, titleEdited, pinned } = prefs[record.conversationId] || {};
+          const projectId = record.conversationId.startsWith('project-')
+            ? record.conversationId.replace('project-', '')
+            : undefined;
+          await conversations.put({ ...record, title, titleEdited, pinned, projectId });
+        }
+        localStorage.removeItem(LEGACY_PREFS_KEY);
+      }
+
+      if (oldVersion < 3) {
+        // Branches are built from uids, so messages without one would drop out of every branch
+        let cursor = await tx.objectStore(STORE_NAME).openCursor();
+        while (cursor) {
+          if (!cursor.value.uid) {
+            await cursor.update({ ...cursor.value, uid: legacyMessageUid(cursor.value) });
+          }
+          cursor = await cursor.continue();
+        }
+      }
     },
   });
 
@@ -55,66 +214,217 @@ async function getDB(): Promise<IDBPDatabase<ConversationDBSchema>> {
 }
 
 /**
- * Save a message to IndexedDB
+ * Save a message to IndexedDB and update its conversation record in the same
+ * transaction. Without a `parentUid` the message continues the active branch;
+ * either way it becomes the active branch's new leaf.
  */
-export async function saveMessage(message: Omit<ChatMessage, 'id'>): Promise<number> {
+export async function saveMessage(
+  message: Omit<ChatMessage, 'id'>,
+  options: { projectId?: string } = {}
+): Promise<number> {
   const db = await getDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  const store = tx.objectStore(STORE_NAME);
+  const tx = db.transaction([STORE_NAME, CONVERSATIONS_STORE], 'readwrite');
+  const conversations = tx.objectStore(CONVERSATIONS_STORE);
+  
+  const existing = await conversations.get(message.conversationId);
   
   const messageWithId = {
     ...message,
+    uid: message.uid || crypto.randomUUID(),
+    parentUid: message.parentUid !== undefined ? message.parentUid : existing?.activeLeafUid,
     ts: message.ts || Date.now(),
   };
   
-  const id = await store.add(messageWithId as ChatMessage);
+  const id = await tx.objectStore(STORE_NAME).add(messageWithId as ChatMessage);
+  const record = { ...applyMessage(existing, messageWithId), activeLeafUid: messageWithId.uid };
+  await conversations.put(options.projectId ? { ...record, projectId: options.projectId } : record);
   await tx.done;
   
   return id as number;
 }
 
+/**
+ * Update a previously saved message (must have an id)
+ */
+export async function updateMessage(message: ChatMessage): Promise<void> {
+  if (message.id === undefined) {
+    throw new Error('Cannot update a message that has not been saved');
+  }
+  const db = await getDB();
+  const existing = await db.get(STORE_NAME, message.id);
+  // Keep the stored uid: in-memory copies may predate it
+  await db.put(STORE_NAME, { ...existing, ...message, uid: message.uid || existing?.uid });
+}
+
 /**
  * Load all messages for a specific conversation
  */
 export async function loadConversation(conversationId: string): Promise<ChatMessage[]> {
   const db = await getDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const index = tx.store.index('by-conversation');
-  
-  const messages = await index.getAll(conversationId);
-  await tx.done;
-  
-  // Sort by timestamp to ensure chronological order
-  return messages.sort((a, b) => a.ts - b.ts);
+  // The compound index returns them in chronological order
+  return db.getAllFromIndex(STORE_NAME, 'by-conversation-ts', conversationRange(conversationId));
 }
 
 /**
- * Get the last N messages from a conversation (for API context)
+ * Load the branch of a conversation that is currently shown, with the
+ * alternatives available at each message
+ */
+export async function loadBranch(conversationId: string): Promise<ConversationBranch> {
+  const [messages, record] = await Promise.all([
+    loadConversation(conversationId),
+    getConversationMetadata(conversationId),
+  ]);
+  return buildBranch(messages, record?.activeLeafUid);
+}
+
+/**
+ * Choose the branch to show and continue
+ */
+export async function setActiveLeaf(conversationId: string, leafUid: string): Promise<void> {
+  await updateConversationRecord(conversationId, record => ({ ...record, activeLeafUid: leafUid }));
+}
+
+/**
+ * Get the last N messages of the active branch (for API context)
  */
 export async function getRecentMessages(
   conversationId: string,
   limit: number = 50
 ): Promise<ChatMessage[]> {
-  const messages = await loadConversation(conversationId);
-  // Return last N messages (most recent)
+  const { messages } = await loadBranch(conversationId);
   return messages.slice(-limit);
 }
 
 /**
- * Clear all messages for a specific conversation
+ * Get what the model needs to continue a conversation: the latest rolling
+ * summary on the active branch and the messages after it (at most `limit`)
+ */
+export async function getContextMessages(
+  conversationId: string,
+  limit: number = 50
+): Promise<{ summary?: string; summarySignature?: string; messages: ChatMessage[] }> {
+  const { messages } = await loadBranch(conversationId);
+  let boundary = messages.length - 1;
+  while (boundary >= 0 && !messages[boundary].summary) {
+    boundary--;
+  }
+  return {
+    summary: boundary >= 0 ? messages[boundary].summary : undefined,
+    summarySignature: boundary >= 0 ? messages[boundary].summarySignature : undefined,
+    messages: messages.slice(boundary + 1).slice(-limit),
+  };
+}
+
+/**
+ * Update a conversation's record; does nothing for unknown conversations
+ */
+async function updateConversationRecord(
+  conversationId: string,
+  update: (record: ConversationRecord) => ConversationRecord
+): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+  const record = await tx.store.get(conversationId);
+  if (record) {
+    await tx.store.put(update(record));
+  }
+  await tx.done;
+}
+
+/**
+ * Set a conversation's title. Generated titles never replace one the visitor
+ * typed; an empty title reverts to the default label.
+ */
+export async function setConversationTitle(
+  conversationId: string,
+  title: string,
+  options: { generated?: boolean } = {}
+): Promise<void> {
+  await updateConversationRecord(conversationId, record => {
+    if (options.generated && record.titleEdited) return record;
+    const trimmed = title.trim();
+    if (!trimmed) return { ...record, title: undefined, titleEdited: undefined };
+    return { ...record, title: trimmed, titleEdited: !options.generated };
+  });
+}
+
+export async function setConversationPinned(conversationId: string, pinned: boolean): Promise<void> {
+  await updateConversationRecord(conversationId, record => ({ ...record, pinned }));
+}
+
+function buildSnippet(content: string, index: number, length: number): string {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(content.length, index + length + SNIPPET_RADIUS);
+  const excerpt = content.slice(start, end).replace(/\s+/g, ' ');
+  return `${start > 0 ? '…' : ''}${excerpt}${end < content.length ? '…' : ''}`;
+}
+
+/**
+ * Case-insensitive full-text search over every stored message and title.
+ * Results are ordered by number of matching messages.
+ */
+export async function searchConversations(query: string): Promise<ConversationSearchResult[]> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const results = new Map<string, ConversationSearchResult>();
+  const resultFor = (conversationId: string) => {
+    let result = results.get(conversationId);
+    if (!result) {
+      result = { conversationId, titleMatch: false, matches: [], matchCount: 0 };
+      results.set(conversationId, result);
+    }
+    return result;
+  };
+
+  const db = await getDB();
+  const tx = db.transaction([STORE_NAME, CONVERSATIONS_STORE]);
+  let cursor = await tx.objectStore(STORE_NAME).openCursor();
+  while (cursor) {
+    const message = cursor.value;
+    const index = message.content.toLowerCase().indexOf(needle);
+    if (index !== -1 && message.role !== 'system') {
+      const result = resultFor(message.conversationId);
+      result.matchCount++;
+      if (result.matches.length < MAX_MATCHES_PER_CONVERSATION) {
+        result.matches.push({
+          messageId: message.id,
+          role: message.role,
+          ts: message.ts,
+          snippet: buildSnippet(message.content, index, needle.length),
+        });
+      }
+    }
+    cursor = await cursor.continue();
+  }
+
+  for (const record of await tx.objectStore(CONVERSATIONS_STORE).getAll()) {
+    if (record.title?.toLowerCase().includes(needle)) {
+      resultFor(record.conversationId).titleMatch = true;
+    }
+  }
+
+  return Array.from(results.values()).sort(
+    (a, b) => Number(b.titleMatch) - Number(a.titleMatch) || b.matchCount - a.matchCount
+  );
+}
+
+/**
+ * Clear all messages for a specific conversation, along with its record
  */
 export async function clearConversation(conversationId: string): Promise<void> {
   const db = await getDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  const index = tx.store.index('by-conversation');
+  const tx = db.transaction([STORE_NAME, CONVERSATIONS_STORE], 'readwrite');
+  const index = tx.objectStore(STORE_NAME).index('by-conversation-ts');
   
   // Get all messages for this conversation
-  const messages = await index.getAllKeys(conversationId);
+  const messages = await index.getAllKeys(conversationRange(conversationId));
   
   // Delete each message
   for (const key of messages) {
-    await tx.store.delete(key);
+    await tx.objectStore(STORE_NAME).delete(key);
   }
+  await tx.objectStore(CONVERSATIONS_STORE).delete(conversationId);
   
   await tx.done;
 }
@@ -124,47 +434,15 @@ export async function clearConversation(conversationId: string): Promise<void> {
  */
 export async function listConversations(): Promise<string[]> {
   const db = await getDB();
-  const tx = db.transaction(STORE_NAME, 'readonly');
-  const store = tx.store;
-  
-  const allMessages = await store.getAll();
-  await tx.done;
-  
-  // Get unique conversation IDs
-  const conversationIds = new Set<string>();
-  for (const msg of allMessages) {
-    conversationIds.add(msg.conversationId);
-  }
-  
-  return Array.from(conversationIds);
+  return db.getAllKeys(CONVERSATIONS_STORE);
 }
 
 /**
  * Get conversation metadata (last message timestamp, message count)
  */
-export async function getConversationMetadata(conversationId: string): Promise<{
-  messageCount: number;
-  lastActivity: number;
-  firstMessage?: string;
-}> {
-  const messages = await loadConversation(conversationId);
-  
-  if (messages.length === 0) {
-    return {
-      messageCount: 0,
-      lastActivity: 0,
-    };
-  }
-  
-  const sortedMessages = messages.sort((a, b) => b.ts - a.ts);
-  const lastMessage = sortedMessages[0];
-  const firstUserMessage = messages.find(m => m.role === 'user');
-  
-  return {
-    messageCount: messages.length,
-    lastActivity: lastMessage.ts,
-    firstMessage: firstUserMessage?.content.substring(0, 100),
-  };
+export async function getConversationMetadata(conversationId: string): Promise<ConversationRecord | undefined> {
+  const db = await getDB();
+  return db.get(CONVERSATIONS_STORE, conversationId);
 }
 
 /**
@@ -175,27 +453,39 @@ export async function deleteConversation(conversationId: string): Promise<void>
 }
 
 /**
- * Get all conversations with metadata
+ * Import an exported conversation. Keeps its id unless a conversation with that
+ * id already exists here, in which case it gets a fresh one. Returns the id used.
  */
-export async function listConversationsWithMetadata(): Promise<Array<{
-  conversationId: string;
-  messageCount: number;
-  lastActivity: number;
-  firstMessage?: string;
-}>> {
-  const conversationIds = await listConversations();
-  const conversations = await Promise.all(
-    conversationIds.map(async (id) => {
-      const metadata = await getConversationMetadata(id);
-      return {
-        conversationId: id,
-        ...metadata,
-      };
-    })
-  );
-  
-  // Sort by last activity (most recent first)
-  return conversations.sort((a, b) => b.lastActivity - a.lastActivity);
+export async function importConversation(exported: ConversationExport): Promise<string> {
+  const existing = await getConversationMetadata(exported.conversationId);
+  const conversationId = existing ? `conversation-${Date.now()}` : exported.conversationId;
+
+  let record: ConversationRecord | undefined;
+  for (const message of [...exported.messages].sort((a, b) => a.ts - b.ts)) {
+    record = applyMessage(record, { ...message, conversationId });
+  }
+
+  const db = await getDB();
+  const tx = db.transaction([STORE_NAME, CONVERSATIONS_STORE], 'readwrite');
+  await Promise.all([
+    ...exported.messages.map(message =>
+      tx.objectStore(STORE_NAME).add({ ...message, conversationId, uid: crypto.randomUUID() } as ChatMessage)
+    ),
+    tx.objectStore(CONVERSATIONS_STORE).put({ ...record!, projectId: exported.project?.projectId }),
+    tx.done,
+  ]);
+  return conversationId;
+}
+
+/**
+ * Get all conversations with metadata, pinned first, then by last activity
+ * (most recent first)
+ */
+export async function listConversationsWithMetadata(): Promise<ConversationRecord[]> {
+  const db = await getDB();
+  // The index already orders by last activity; reverse for newest first
+  const conversations = (await db.getAllFromIndex(CONVERSATIONS_STORE, 'by-last-activity')).reverse();
+  return [...conversations.filter(c => c.pinned), ...conversations.filter(c => !c.pinned)];
 }
 
 /**
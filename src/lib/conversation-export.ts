@@ -0,0 +1,100 @@
+// src/lib/conversation-export.ts
+// Portable conversation format used for Markdown/JSON export, import and
+// shared read-only links
+
+import { z } from 'zod';
+import type { ChatMessage } from '@/lib/conversation-db';
+import type { Project } from '@/lib/kb';
+
+export const EXPORT_FORMAT = 'auraxpro-conversation';
+
+// Same limits the server store applies to synced conversations
+const MAX_MESSAGES = 500;
+const MAX_CONTENT_LENGTH = 20000;
+
+const CitationSchema = z.object({
+  id: z.string(),
+  marker: z.string(),
+  source: z.enum(['kb', 'experience', 'projects']),
+  kind: z.string(),
+  title: z.string(),
+  projectId: z.string().optional(),
+  index: z.number().optional(),
+});
+
+export const ConversationExportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(1),
+  conversationId: z.string().min(1).max(200),
+  exportedAt: z.number(),
+  project: z
+    .object({ projectId: z.string(), name: z.string(), slug: z.string().optional() })
+    .optional(),
+  messages: z
+    .array(
+      z.object({
+        role: z.enum(['user', 'assistant']),
+        content: z.string().max(MAX_CONTENT_LENGTH),
+        ts: z.number(),
+        model: z.string().optional(),
+        status: z.enum(['complete', 'error', 'refused']).optional(),
+        citations: z.array(CitationSchema).optional(),
+      })
+    )
+    .min(1, 'The conversation has no messages')
+    .max(MAX_MESSAGES),
+});
+
+export type ConversationExport = z.infer<typeof ConversationExportSchema>;
+
+export function buildConversationExport(
+  conversationId: string,
+  messages: ChatMessage[],
+  project?: Project | null
+): ConversationExport {
+  return {
+    format: EXPORT_FORMAT,
+    version: 1,
+    conversationId,
+    exportedAt: Date.now(),
+    project: project ? { projectId: project.project_id, name: project.name, slug: project.slug } : undefined,
+    messages: messages
+      .filter((m): m is ChatMessage & { role: 'user' | 'assistant' } => m.role === 'user' || m.role === 'assistant')
+      .map(({ role, content, ts, model, status, citations }) => ({ role, content, ts, model, status, citations })),
+  };
+}
+
+/**
+ * Validate an uploaded or posted export
+ */
+export function parseConversationExport(input: unknown): { data?: ConversationExport; error?: string } {
+  const result = ConversationExportSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    return { error: `Not a valid conversation export (${[...issue.path, issue.message].join(': ')})` };
+  }
+  return { data: result.data };
+}
+
+export function conversationTitle(exported: ConversationExport): string {
+  if (exported.project) return exported.project.name;
+  const first = exported.messages.find(m => m.role === 'user')?.content || 'Conversation';
+  return first.length > 60 ? `${first.slice(0, 60)}…` : first;
+}
+
+export function conversationToMarkdown(exported: ConversationExport): string {
+  const lines = [`# ${conversationTitle(exported)}`, ''];
+  if (exported.project) {
+    lines.push(`Project: ${exported.project.name}`, '');
+  }
+  lines.push(`Exported ${new Date(exported.exportedAt).toISOString()}`, '');
+
+  for (const message of exported.messages) {
+    const speaker = message.role === 'user' ? 'You' : 'AuraXPro AI';
+    lines.push(`## ${speaker} — ${new Date(message.ts).toISOString()}`, '', message.content, '');
+    if (message.citations && message.citations.length > 0) {
+      lines.push(`Sources: ${message.citations.map(c => `[${c.marker}] ${c.title}`).join(', ')}`, '');
+    }
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,198 @@
+// src/lib/conversation-store.ts
+// Server-side conversation store keyed by anonymous session, one file per
+// session so a push only rewrites that visitor's conversations
+// This file is only used on the server side
+
+import { listCollections, readCollection, removeCollection, updateCollection } from '@/lib/file-store';
+import type { ChatMessage } from '@/lib/conversation-db';
+import { isValidSessionId } from '@/lib/session';
+
+const FOLDER = 'conversations';
+// Single file holding every session's conversations, from before the split
+const LEGACY_COLLECTION = 'conversations';
+
+// Limits on what a client may push in one conversation
+const MAX_MESSAGES = 500;
+const MAX_CONTENT_LENGTH = 20000;
+// Conversations a session may keep on the server
+const MAX_CONVERSATIONS_PER_SESSION = 200;
+
+export type StoredMessage = Omit<ChatMessage, 'id'> & { uid: string };
+
+export interface StoredConversation {
+  conversationId: string;
+  sessionId: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: StoredMessage[];
+}
+
+export interface ConversationSummary {
+  conversationId: string;
+  messageCount: number;
+  lastActivity: number;
+  firstMessage?: string;
+}
+
+export class ConversationLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConversationLimitError';
+  }
+}
+
+/**
+ * The store can be switched off with CONVERSATION_STORE=off; the client then
+ * stays local-only.
+ */
+export function isConversationStoreEnabled(): boolean {
+  return process.env.CONVERSATION_STORE !== 'off';
+}
+
+function sessionCollection(sessionId: string): string {
+  // Session ids become file names, so anything but a well-formed id is refused
+  if (!isValidSessionId(sessionId)) {
+    throw new Error('Invalid session id');
+  }
+  return `${FOLDER}/${sessionId}`;
+}
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Move conversations from the legacy single file into per-session files, once
+ */
+function migrateLegacyStore(): Promise<void> {
+  if (!migration) {
+    migration = (async () => {
+      const legacy = await readCollection<StoredConversation>(LEGACY_COLLECTION);
+      const bySession = new Map<string, StoredConversation[]>();
+      for (const conversation of legacy) {
+        if (!isValidSessionId(conversation.sessionId)) continue;
+        bySession.set(conversation.sessionId, [...(bySession.get(conversation.sessionId) || []), conversation]);
+      }
+      for (const [sessionId, conversations] of Array.from(bySession)) {
+        await updateCollection<StoredConversation>(sessionCollection(sessionId), records => ({
+          records: [
+            ...records,
+            ...conversations.filter(c => !records.some(r => r.conversationId === c.conversationId)),
+          ],
+          result: undefined,
+        }));
+      }
+      await removeCollection(LEGACY_COLLECTION);
+    })().catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+}
+
+async function readSession(sessionId: string): Promise<StoredConversation[]> {
+  if (!isValidSessionId(sessionId)) return [];
+  await migrateLegacyStore();
+  return readCollection<StoredConversation>(sessionCollection(sessionId));
+}
+
+function summarize(conversation: StoredConversation): ConversationSummary {
+  const messages = conversation.messages;
+  return {
+    conversationId: conversation.conversationId,
+    messageCount: messages.length,
+    lastActivity: messages.length > 0 ? messages[messages.length - 1].ts : conversation.updatedAt,
+    firstMessage: messages.find(m => m.role === 'user')?.content.substring(0, 100),
+  };
+}
+
+/**
+ * Validate and normalize messages pushed by a client. Invalid entries are dropped.
+ */
+export function sanitizeMessages(conversationId: string, input: unknown): StoredMessage[] {
+  if (!Array.isArray(input)) return [];
+  return input
+    .filter((m: any) =>
+      m &&
+      typeof m.uid === 'string' &&
+      ['user', 'assistant', 'system'].includes(m.role) &&
+      typeof m.content === 'string' &&
+      m.content.length <= MAX_CONTENT_LENGTH &&
+      typeof m.ts === 'number'
+    )
+    .slice(-MAX_MESSAGES)
+    .map(({ id, ...m }: any) => ({ ...m, conversationId }));
+}
+
+export async function listConversationsForSession(sessionId: string): Promise<ConversationSummary[]> {
+  const conversations = await readSession(sessionId);
+  return conversations
+    .map(summarize)
+    .sort((a, b) => b.lastActivity - a.lastActivity);
+}
+
+/**
+ * Every stored conversation across all sessions, most recent first (admin only)
+ */
+export async function listAllConversations(): Promise<StoredConversation[]> {
+  await migrateLegacyStore();
+  const collections = await listCollections(FOLDER);
+  const conversations = (await Promise.all(collections.map(name => readCollection<StoredConversation>(name)))).flat();
+  return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getConversation(sessionId: string, conversationId: string): Promise<StoredConversation | null> {
+  const conversations = await readSession(sessionId);
+  return conversations.find(c => c.conversationId === conversationId) || null;
+}
+
+/**
+ * Merge messages into a conversation (upsert by message uid). Throws a
+ * ConversationLimitError when a new conversation would exceed the session's limit.
+ */
+export async function mergeConversation(
+  sessionId: string,
+  conversationId: string,
+  messages: StoredMessage[]
+): Promise<StoredConversation> {
+  await migrateLegacyStore();
+  return updateCollection<StoredConversation, StoredConversation>(sessionCollection(sessionId), records => {
+    const now = Date.now();
+    const index = records.findIndex(c => c.conversationId === conversationId);
+    if (index < 0 && records.length >= MAX_CONVERSATIONS_PER_SESSION) {
+      throw new ConversationLimitError(
+        `Only ${MAX_CONVERSATIONS_PER_SESSION} conversations can be synced. Delete some to sync new ones.`
+      );
+    }
+    const existing = index >= 0
+      ? records[index]
+      : { conversationId, sessionId, createdAt: now, updatedAt: now, messages: [] };
+
+    const byUid = new Map(existing.messages.map(m => [m.uid, m]));
+    for (const message of messages) {
+      byUid.set(message.uid, message);
+    }
+
+    const updated: StoredConversation = {
+      ...existing,
+      updatedAt: now,
+      messages: Array.from(byUid.values()).sort((a, b) => a.ts - b.ts).slice(-MAX_MESSAGES),
+    };
+
+    const next = [...records];
+    if (index >= 0) {
+      next[index] = updated;
+    } else {
+      next.push(updated);
+    }
+    return { records: next, result: updated };
+  });
+}
+
+export async function deleteStoredConversation(sessionId: string, conversationId: string): Promise<boolean> {
+  if (!isValidSessionId(sessionId)) return false;
+  await migrateLegacyStore();
+  return updateCollection<StoredConversation, boolean>(sessionCollection(sessionId), records => {
+    const next = records.filter(c => c.conversationId !== conversationId);
+    return { records: next, result: next.length !== records.length };
+  });
+}
@@ -0,0 +1,111 @@
+// src/lib/conversation-sync.ts
+// Syncs IndexedDB conversations with the server store (/api/conversations).
+// Every function degrades to a no-op when the server store is unavailable,
+// leaving the app local-only.
+
+import { ChatMessage, getConversationMetadata, loadConversation, saveMessage } from '@/lib/conversation-db';
+import type { ConversationSummary, StoredConversation, StoredMessage } from '@/lib/conversation-store';
+import { legacyMessageUid } from '@/lib/conversation-tree';
+
+let serverAvailable = true;
+
+/**
+ * Whether the last sync attempt reached the server store
+ */
+export function isServerSyncAvailable(): boolean {
+  return serverAvailable;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T | null> {
+  try {
+    const res = await fetch(url, { ...init, credentials: 'same-origin' });
+    if (res.status === 503) {
+      serverAvailable = false;
+      return null;
+    }
+    serverAvailable = true;
+    if (!res.ok) return null;
+    return (await res.json()) as T;
+  } catch {
+    serverAvailable = false;
+    return null;
+  }
+}
+
+function messageUid(message: ChatMessage): string {
+  return message.uid || legacyMessageUid(message);
+}
+
+/**
+ * Push all local messages of a conversation to the server
+ */
+export async function pushConversation(conversationId: string): Promise<void> {
+  const messages = await loadConversation(conversationId);
+  if (messages.length === 0) return;
+
+  const payload: StoredMessage[] = messages.map(({ id, ...message }) => ({
+    ...message,
+    uid: messageUid({ id, ...message }),
+  }));
+
+  await request(`/api/conversations/${encodeURIComponent(conversationId)}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ messages: payload }),
+  });
+}
+
+/**
+ * Pull server conversations into IndexedDB, adding messages missing locally.
+ * Returns true when anything new was imported.
+ */
+export async function pullConversations(): Promise<boolean> {
+  const list = await request<{ conversations: ConversationSummary[] }>('/api/conversations');
+  if (!list) return false;
+
+  let imported = false;
+  for (const summary of list.conversations) {
+    const metadata = await getConversationMetadata(summary.conversationId);
+    if ((metadata?.messageCount ?? 0) >= summary.messageCount) continue;
+
+    const data = await request<{ conversation: StoredConversation }>(
+      `/api/conversations/${encodeURIComponent(summary.conversationId)}`
+    );
+    if (!data) continue;
+
+    const local = await loadConversation(summary.conversationId);
+    const localUids = new Set(local.map(messageUid));
+    for (const message of data.conversation.messages) {
+      if (localUids.has(message.uid)) continue;
+      await saveMessage(message);
+      imported = true;
+    }
+  }
+  return imported;
+}
+
+export async function deleteRemoteConversation(conversationId: string): Promise<void> {
+  await request(`/api/conversations/${encodeURIComponent(conversationId)}`, { method: 'DELETE' });
+}
+
+/**
+ * Continue the session of another device, given the token from its transfer link
+ */
+export async function adoptSession(token: string): Promise<boolean> {
+  const result = await request<{ ok: boolean }>('/api/session', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ token }),
+  });
+  return result !== null;
+}
+
+/**
+ * Build a single-use link that continues this session's conversations on
+ * another device (valid for a few minutes)
+ */
+export async function getSessionLink(): Promise<string | null> {
+  const result = await request<{ token: string }>('/api/session/transfer', { method: 'POST' });
+  if (!result) return null;
+  return `${window.location.origin}/?transfer=${encodeURIComponent(result.token)}`;
+}
@@ -0,0 +1,93 @@
+// src/lib/conversation-tree.ts
+// Branching conversation history: messages form a tree through `parentUid`,
+// and the chat shows one path from the root to a leaf
+
+import type { ChatMessage } from '@/lib/conversation-db';
+
+export interface ConversationBranch {
+  /** Messages on the path from the root to the leaf, oldest first */
+  messages: ChatMessage[];
+  /** For messages with alternatives: the uids of all siblings (including itself), oldest first */
+  siblings: Record<string, string[]>;
+}
+
+/**
+ * Stable uid for messages saved before uids existed. The v3 database upgrade
+ * backfills it, and the server store uses the same value, so both agree.
+ */
+export function legacyMessageUid(message: Pick<ChatMessage, 'conversationId' | 'ts' | 'role'>): string {
+  return `${message.conversationId}:${message.ts}:${message.role}`;
+}
+
+function withUids(messages: ChatMessage[]): ChatMessage[] {
+  return messages.map(m => (m.uid ? m : { ...m, uid: legacyMessageUid(m) }));
+}
+
+/**
+ * Map each message uid to its parent's uid. Messages saved before branching
+ * existed have no `parentUid`; they were a flat list, so their parent is the
+ * message before them. Roots saved since have `parentUid: null`.
+ */
+function resolveParents(messages: ChatMessage[]): Map<string, string | undefined> {
+  const parents = new Map<string, string | undefined>();
+  let previous: string | undefined;
+  for (const message of messages) {
+    if (!message.uid) continue;
+    parents.set(message.uid, message.parentUid === undefined ? previous : message.parentUid ?? undefined);
+    previous = message.uid;
+  }
+  return parents;
+}
+
+function childrenByParent(messages: ChatMessage[], parents: Map<string, string | undefined>): Map<string | undefined, ChatMessage[]> {
+  const children = new Map<string | undefined, ChatMessage[]>();
+  for (const message of messages) {
+    if (!message.uid) continue;
+    const parent = parents.get(message.uid);
+    children.set(parent, [...(children.get(parent) || []), message]);
+  }
+  return children;
+}
+
+/**
+ * Follow the most recent child from `uid` down to a leaf. Used when switching
+ * to another branch: it opens where that branch was last continued.
+ */
+export function findLatestLeaf(messages: ChatMessage[], uid: string): string {
+  messages = withUids(messages);
+  const children = childrenByParent(messages, resolveParents(messages));
+  let current = uid;
+  let next = children.get(current);
+  while (next && next.length > 0) {
+    current = next[next.length - 1].uid!;
+    next = children.get(current);
+  }
+  return current;
+}
+
+/**
+ * The path ending at `leafUid` (or at the newest message when the leaf is
+ * unknown), with the alternatives available at each step. Path messages carry
+ * their resolved `parentUid`. `messages` must be in timestamp order.
+ */
+export function buildBranch(messages: ChatMessage[], leafUid?: string): ConversationBranch {
+  messages = withUids(messages);
+  const parents = resolveParents(messages);
+  const byUid = new Map(messages.filter(m => m.uid).map(m => [m.uid!, m]));
+  const leaf = leafUid && byUid.has(leafUid) ? leafUid : messages[messages.length - 1]?.uid;
+
+  const path: ChatMessage[] = [];
+  for (let uid = leaf; uid && byUid.has(uid); uid = parents.get(uid)) {
+    path.unshift({ ...byUid.get(uid)!, parentUid: parents.get(uid) ?? null });
+  }
+
+  const children = childrenByParent(messages, parents);
+  const siblings: Record<string, string[]> = {};
+  for (const message of path) {
+    const group = children.get(parents.get(message.uid!)) || [];
+    if (group.length > 1) {
+      siblings[message.uid!] = group.map(m => m.uid!);
+    }
+  }
+  return { messages: path, siblings };
+}
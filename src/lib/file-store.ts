@@ -0,0 +1,146 @@
+// src/lib/file-store.ts
+// Minimal JSON file store for server-side records (leads, etc.). Collection
+// names may contain one folder, e.g. "conversations/<sessionId>", to split
+// large data sets into one file per owner. Logs are append-only NDJSON files
+// for high-volume records that are never updated.
+// This file is only used on the server side
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(process.cwd(), '.data');
+
+// Serialize writes per file so concurrent requests don't clobber each other
+const writeQueues = new Map<string, Promise<unknown>>();
+
+function collectionPath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+function logPath(name: string): string {
+  return path.join(DATA_DIR, `${name}.ndjson`);
+}
+
+function enqueueWrite<R>(target: string, write: () => Promise<R>): Promise<R> {
+  const previous = writeQueues.get(target) || Promise.resolve();
+  const next = previous.catch(() => undefined).then(write);
+  writeQueues.set(target, next);
+  // Forget settled queues so the map doesn't keep one entry per file forever
+  next.finally(() => {
+    if (writeQueues.get(target) === next) writeQueues.delete(target);
+  }).catch(() => undefined);
+  return next;
+}
+
+async function listFiles(folder: string, extension: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(path.join(DATA_DIR, folder));
+    return entries.filter(entry => entry.endsWith(extension)).map(entry => `${folder}/${entry.slice(0, -extension.length)}`);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Read every record in a collection (empty when the file doesn't exist yet)
+ */
+export async function readCollection<T>(name: string): Promise<T[]> {
+  try {
+    const raw = await fs.readFile(collectionPath(name), 'utf8');
+    const data = JSON.parse(raw);
+    return Array.isArray(data) ? data : [];
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+/**
+ * Names of the collections stored in a folder, e.g. "conversations/<sessionId>"
+ */
+export function listCollections(folder: string): Promise<string[]> {
+  return listFiles(folder, '.json');
+}
+
+/**
+ * Delete a collection's file (no-op when it doesn't exist)
+ */
+export async function removeCollection(name: string): Promise<void> {
+  await fs.rm(collectionPath(name), { force: true });
+}
+
+/**
+ * Apply an update to a collection and persist the result atomically
+ */
+export function updateCollection<T, R = void>(
+  name: string,
+  update: (records: T[]) => { records: T[]; result: R }
+): Promise<R> {
+  const target = collectionPath(name);
+  return enqueueWrite(target, async () => {
+    const { records, result } = update(await readCollection<T>(name));
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    const tmp = `${target}.${process.pid}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(records, null, 2), 'utf8');
+    await fs.rename(tmp, target);
+    return result;
+  });
+}
+
+/**
+ * Append one record to a collection
+ */
+export async function appendRecord<T>(name: string, record: T): Promise<T> {
+  await updateCollection<T>(name, records => ({ records: [...records, record], result: undefined }));
+  return record;
+}
+
+/**
+ * Append one record to a log without reading it first
+ */
+export function appendToLog<T>(name: string, record: T): Promise<void> {
+  const target = logPath(name);
+  return enqueueWrite(target, async () => {
+    await fs.mkdir(path.dirname(target), { recursive: true });
+    await fs.appendFile(target, JSON.stringify(record) + '\n', 'utf8');
+  });
+}
+
+/**
+ * Read every record in a log (empty when the file doesn't exist yet). A line
+ * cut short by a crash is skipped.
+ */
+export async function readLog<T>(name: string): Promise<T[]> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(logPath(name), 'utf8');
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+  const records: T[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // Partial line
+    }
+  }
+  return records;
+}
+
+/**
+ * Names of the logs stored in a folder, e.g. "usage/2024-05-01"
+ */
+export function listLogs(folder: string): Promise<string[]> {
+  return listFiles(folder, '.ndjson');
+}
+
+/**
+ * Delete a log's file (no-op when it doesn't exist)
+ */
+export async function removeLog(name: string): Promise<void> {
+  await fs.rm(logPath(name), { force: true });
+}
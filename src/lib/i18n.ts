@@ -0,0 +1,71 @@
+// src/lib/i18n.ts
+// Supported locales, locale negotiation and message lookup, shared by the
+// server (pages, chat route) and the client (I18nProvider)
+
+import { translations, Messages } from '@/lib/translations';
+
+export const LOCALES = ['en', 'de', 'ja'] as const;
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** Set by the language switcher; wins over Accept-Language */
+export const LOCALE_COOKIE = 'axp_locale';
+
+/** Names shown in the language switcher */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  de: 'Deutsch',
+  ja: '日本語',
+};
+
+/** English language names, for instructions to the model */
+export const LOCALE_LANGUAGES: Record<Locale, string> = {
+  en: 'English',
+  de: 'German',
+  ja: 'Japanese',
+};
+
+/** Open Graph locale per supported locale */
+export const OPEN_GRAPH_LOCALES: Record<Locale, string> = {
+  en: 'en_US',
+  de: 'de_DE',
+  ja: 'ja_JP',
+};
+
+export type MessageKey = { [K in keyof Messages]: Messages[K] extends string ? K : never }[keyof Messages];
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+}
+
+/**
+ * Pick the best supported locale from an Accept-Language header
+ * ("de-CH,de;q=0.9,en;q=0.8" → "de"). Falls back to the default locale.
+ */
+export function matchLocale(acceptLanguage: string | null | undefined): Locale {
+  const ranges = (acceptLanguage || '')
+    .split(',')
+    .map(part => {
+      const [tag, ...params] = part.trim().split(';');
+      const q = params.map(p => p.trim()).find(p => p.startsWith('q='));
+      return { language: tag.split('-')[0].toLowerCase(), q: q ? Number(q.slice(2)) : 1 };
+    })
+    .filter(range => range.language && Number.isFinite(range.q) && range.q > 0)
+    .sort((a, b) => b.q - a.q);
+
+  return ranges.map(range => range.language).find(isLocale) || DEFAULT_LOCALE;
+}
+
+export function getMessages(locale: Locale): Messages {
+  return translations[locale];
+}
+
+/**
+ * Look up a message and fill in `{name}` placeholders
+ */
+export function translate(locale: Locale, key: MessageKey, values?: Record<string, string | number>): string {
+  const template = translations[locale][key] as string;
+  if (!values) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in values ? String(values[name]) : match));
+}
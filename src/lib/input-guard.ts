@@ -0,0 +1,223 @@
+// src/lib/input-guard.ts
+// Safety checks on visitor messages before they reach the model: prompt
+// injection patterns, topic boundaries and optional moderation
+// This file is only used on the server side
+//
+//   INPUT_MODERATION      off | openai | local (default: off)
+//   INPUT_MODERATION_URL  classifier endpoint for "local"; receives { input }
+//                         and must answer { flagged: boolean }
+
+import OpenAI from 'openai';
+import type { ChatRefusalReason } from '@/lib/chat-events';
+import type { ChatRequestMessage } from '@/lib/chat-limits';
+import { loadKnowledge, tokenize } from '@/lib/retrieval';
+import { DEFAULT_LOCALE, LOCALES, Locale } from '@/lib/i18n';
+
+export type GuardResult =
+  | { allowed: true; messages: ChatRequestMessage[]; summary?: string }
+  | { allowed: false; reason: ChatRefusalReason; message: string };
+
+const REFUSALS: Record<Locale, Record<ChatRefusalReason, string>> = {
+  en: {
+    injection:
+      "I can't change how I work or share my instructions, but I'm happy to answer questions about AuraXPro's services, projects or your own software project.",
+    off_topic:
+      "I can only help with AuraXPro's services and projects or general software development questions. Is there something along those lines I can help with?",
+    moderation:
+      "I can't help with that request. Feel free to ask about AuraXPro's services, projects or your software project.",
+  },
+  de: {
+    injection:
+      'Ich kann meine Arbeitsweise nicht ändern oder meine Anweisungen weitergeben, beantworte aber gerne Fragen zu den Leistungen und Projekten von AuraXPro oder zu Ihrem eigenen Softwareprojekt.',
+    off_topic:
+      'Ich kann nur bei Fragen zu den Leistungen und Projekten von AuraXPro oder zur Softwareentwicklung allgemein helfen. Gibt es dazu etwas, das ich für Sie tun kann?',
+    moderation:
+      'Bei dieser Anfrage kann ich nicht helfen. Fragen Sie gerne nach den Leistungen und Projekten von AuraXPro oder nach Ihrem Softwareprojekt.',
+  },
+  ja: {
+    injection:
+      '動作の変更や指示内容の共有はできませんが、AuraXPro のサービスや実績、お客様のソフトウェアプロジェクトについてのご質問には喜んでお答えします。',
+    off_topic:
+      'AuraXPro のサービスや実績、またはソフトウェア開発全般に関するご質問のみお手伝いできます。そういった内容で何かお手伝いできることはありますか？',
+    moderation:
+      'そのご依頼にはお応えできません。AuraXPro のサービスや実績、ソフトウェアプロジェクトについてお気軽にお尋ねください。',
+  },
+};
+
+// Attempts to override or extract the system prompt. Visitors don't always
+// write in their interface language, so every locale's patterns are checked.
+const INJECTION_PATTERNS: Record<Locale, RegExp[]> = {
+  en: [
+    /\b(ignore|disregard|forget|override|bypass)\b[^.\n]{0,40}\b(previous|prior|above|earlier|all|your|system|these)\b[^.\n]{0,20}\b(instructions?|prompts?|rules|directions|guidelines)\b/i,
+    /\b(reveal|show|print|repeat|output|leak|dump)\b[^.\n]{0,30}\b(system prompt|initial prompt|hidden (instructions|prompt)|your (instructions|prompt|rules))\b/i,
+    /\bwhat (is|are|was|were) your (system prompt|instructions|initial prompt)\b/i,
+    /\b(developer mode|jailbreak|do anything now|DAN mode)\b/i,
+    /\b(act|pretend|roleplay|behave)\s+(as|to be|like)\b[^.\n]{0,40}\b(unrestricted|unfiltered|uncensored|without (any )?(rules|restrictions|limits|filters))\b/i,
+    /\b(new|updated|real) (system )?(instructions|rules|persona|prompt)\s*:/i,
+    /\byou are no longer\b/i,
+  ],
+  de: [
+    /\b(ignorier\w*|vergiss|vergessen Sie|missachte\w*|umgeh\w*)\b[^.\n]{0,40}\b(vorherige\w*|bisherige\w*|obige\w*|alle\w*|deine\w*|Ihre\w*|System\w*)\b[^.\n]{0,20}\b(Anweisungen|Instruktionen|Regeln|Vorgaben|Prompts?)\b/i,
+    /\b(zeig\w*|gib\w*|verrat\w*|wiederhol\w*|ausgeben)\b[^.\n]{0,30}\b(System-?prompt|Systemanweisungen|versteckte\w* (Anweisungen|Prompt)|(deine|Ihre)\w* (Anweisungen|Prompt|Regeln))\b/i,
+    /\bwas (ist|sind|war|waren) (deine|Ihre)\w* (System-?prompt|Anweisungen|Regeln)\b/i,
+    /\b(Entwicklermodus|Jailbreak)\b/i,
+    /\b(tu so|tue so|verhalte dich|agiere)\b[^.\n]{0,40}\b(uneingeschr\S*|ungefiltert\w*|unzensiert\w*|ohne (jegliche )?(Regeln|Einschr\S*|Grenzen|Filter))/i,
+    /\b(neue|aktualisierte|echte) ?(System)?(anweisungen|regeln|persona|prompt)\s*:/i,
+    /\bdu bist (jetzt )?(nicht mehr|kein\w* \S+ mehr)\b/i,
+  ],
+  ja: [
+    /(以前|前|上記|これまで|すべて|全て)の(指示|命令|ルール|プロンプト|設定)を(無視|忘れ|破棄)/,
+    /(システムプロンプト|初期プロンプト|隠された(指示|プロンプト)|あなたの(指示|プロンプト|ルール))を(教えて|見せて|表示|出力|繰り返|公開)/,
+    /(システムプロンプト|あなたの指示)は(何|なん)/,
+    /開発者モード|脱獄|ジェイルブレイク/,
+    /(制限|制約|ルール|フィルター)(なし|のない|を外した|を解除した)[^。\n]{0,20}(として|のように)(振る舞|ふるま|行動|演じ)/,
+    /新しい(システム)?(指示|ルール|ペルソナ|プロンプト)\s*[:：]/,
+    /あなたはもう[^。\n]{0,20}ではない/,
+  ],
+};
+
+// Markup that imitates roles or our own prompt sections; removed rather than refused
+const SPOOFING_PATTERNS: RegExp[] = [
+  /<\|(im_start|im_end|system|user|assistant|endoftext)\|>/gi,
+  /\[\/?INST\]|<<\/?SYS>>/g,
+  /^\s*(system|assistant|developer)\s*:\s*/gim,
+  /^\s*=+\s*[^=\n]*\s*=+\s*$/gm,
+  /[\u200B-\u200D\u2060\uFEFF]/g,
+];
+
+// Requests that are clearly outside AuraXPro's scope unless they mention dev work
+const OFF_TOPIC_PATTERNS: Record<Locale, RegExp[]> = {
+  en: [
+    /\b(write|compose)\b[^.\n]{0,20}\b(poem|song|lyrics|story|essay|novel)\b/i,
+    /\b(homework|exam answers?)\b/i,
+    /\b(diagnos\w*|symptoms?|medication|dosage|prescription)\b/i,
+    /\b(legal advice|sue (them|him|her|my|the)|lawsuit)\b/i,
+    /\b(stock tips?|which stocks?|crypto(currency)? (price|prediction)|lottery|betting|gambl\w*)\b/i,
+    /\b(recipe|horoscope|astrology|dating advice)\b/i,
+  ],
+  de: [
+    /\b(schreib\w*|verfass\w*|dicht\w*)\b[^.\n]{0,20}\b(Gedicht|Lied|Songtext|Geschichte|Aufsatz|Roman)\b/i,
+    /\b(Hausaufgaben?|Prüfungsantworten|Klausurlösungen?)\b/i,
+    /\b(Diagnose|Symptome?|Medikament\w*|Dosierung)\b/i,
+    /\b(Rechtsberatung|verklagen|Klage einreichen)\b/i,
+    /\b(Aktientipps?|welche Aktien|Krypto\w*[- ](Kurs|Prognose)|Lotto|Sportwetten|Glücksspiel)\b/i,
+    /\b(Kochrezept|Horoskop|Astrologie|Dating-Tipps?)\b/i,
+  ],
+  ja: [
+    /(詩|歌詞|小説|物語|作文)を(書いて|作って)/,
+    /宿題|試験の答え/,
+    /診断|症状|薬の量|処方/,
+    /法的(な)?(助言|アドバイス)|訴訟/,
+    /おすすめの株|株の銘柄|仮想通貨の(価格|予想)|宝くじ|ギャンブル/,
+    /レシピ|星占い|占星術|恋愛相談/,
+  ],
+};
+
+// General software vocabulary on top of the KB's own services and stack
+const DEV_TERMS: Record<Locale, string[]> = {
+  en: [
+    'app', 'apps', 'application', 'api', 'code', 'coding', 'website', 'site', 'web', 'frontend', 'backend',
+    'database', 'deploy', 'deployment', 'bug', 'software', 'developer', 'development', 'programming',
+    'server', 'hosting', 'ui', 'ux', 'design', 'integration', 'automation', 'script', 'scraper', 'cms',
+    'ecommerce', 'store', 'platform', 'project', 'mvp', 'saas', 'dashboard', 'game', 'model', 'ai', 'bot',
+  ],
+  de: [
+    'anwendung', 'webseite', 'webseiten', 'programmieren', 'programmierung', 'entwicklung', 'entwickler',
+    'datenbank', 'schnittstelle', 'automatisierung', 'onlineshop', 'shop', 'plattform', 'projekt', 'spiel', 'ki',
+  ],
+  ja: [
+    'アプリ', 'ウェブサイト', 'サイト', 'コード', '開発', 'プログラミング', 'ソフトウェア', 'データベース',
+    'サーバー', 'デザイン', 'システム', '自動化', 'プロジェクト', 'ダッシュボード', 'ゲーム', 'ボット', '人工知能',
+  ],
+};
+
+async function getDevVocabulary(locale: Locale): Promise<Set<string>> {
+  const { kb } = await loadKnowledge(locale);
+  const terms = LOCALES.flatMap(l => DEV_TERMS[l]);
+  return new Set(tokenize([...terms, kb.brand, ...kb.services, ...kb.core_stack].join(' ')));
+}
+
+/**
+ * Remove role markers and prompt delimiters a visitor could use to pose as the system
+ */
+export function stripSpoofing(text: string): string {
+  return SPOOFING_PATTERNS.reduce((result, pattern) => result.replace(pattern, ''), text).trim();
+}
+
+export function isInjectionAttempt(text: string): boolean {
+  return LOCALES.some(locale => INJECTION_PATTERNS[locale].some(pattern => pattern.test(text)));
+}
+
+async function isOffTopic(text: string, locale: Locale): Promise<boolean> {
+  if (!LOCALES.some(l => OFF_TOPIC_PATTERNS[l].some(pattern => pattern.test(text)))) return false;
+  const vocabulary = await getDevVocabulary(locale);
+  return !tokenize(text).some(term => vocabulary.has(term));
+}
+
+/**
+ * Run the configured moderation backend. Failures are logged and treated as
+ * "not flagged" so an outage doesn't take the chat down.
+ */
+async function isFlagged(text: string): Promise<boolean> {
+  const mode = process.env.INPUT_MODERATION?.toLowerCase() || 'off';
+  try {
+    if (mode === 'openai' && process.env.OPENAI_API_KEY) {
+      const client = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+      const result = await client.moderations.create({ model: 'omni-moderation-latest', input: text });
+      return result.results.some(r => r.flagged);
+    }
+    if (mode === 'local' && process.env.INPUT_MODERATION_URL) {
+      const res = await fetch(process.env.INPUT_MODERATION_URL, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ input: text }),
+        signal: AbortSignal.timeout(5000),
+      });
+      if (!res.ok) throw new Error(`Classifier responded with ${res.status}`);
+      const body = await res.json();
+      return body?.flagged === true;
+    }
+  } catch (error) {
+    console.error('Input moderation failed:', error);
+  }
+  return false;
+}
+
+/**
+ * Check a chat request before the model call. The latest user message decides
+ * whether the request is refused; earlier turns (of any role) and the summary
+ * are only cleaned up, with injection attempts redacted so they can't
+ * resurface from history. Refusals are worded in the visitor's interface language.
+ */
+export async function guardChatRequest(
+  messages: ChatRequestMessage[],
+  summary?: string,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<GuardResult> {
+  const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+  const latest = lastUserIndex === -1 ? '' : messages[lastUserIndex].content;
+  const refusals = REFUSALS[locale];
+
+  if (isInjectionAttempt(latest)) {
+    return { allowed: false, reason: 'injection', message: refusals.injection };
+  }
+  if (await isOffTopic(latest, locale)) {
+    return { allowed: false, reason: 'off_topic', message: refusals.off_topic };
+  }
+  if (latest && await isFlagged(latest)) {
+    return { allowed: false, reason: 'moderation', message: refusals.moderation };
+  }
+
+  return {
+    allowed: true,
+    // The client supplies the whole history, so "assistant" turns are checked too
+    messages: messages.map(m => {
+      const cleaned = stripSpoofing(m.content);
+      return {
+        role: m.role,
+        content: isInjectionAttempt(m.content) || isInjectionAttempt(cleaned) ? '[message removed by safety filter]' : cleaned,
+      };
+    }),
+    summary: summary && !isInjectionAttempt(summary) ? stripSpoofing(summary) : undefined,
+  };
+}
@@ -0,0 +1,79 @@
+// src/lib/kb-schema.ts
+// Runtime schemas for the knowledge base and project records
+
+import { z } from 'zod';
+import type { KB, Project } from '@/lib/kb';
+
+const nonEmpty = z.string().trim().min(1, 'Required');
+const stringList = z.array(nonEmpty);
+
+export const KBSchema = z.object({
+  brand: nonEmpty,
+  site: z.string().url('Must be a valid URL'),
+  services: stringList.min(1, 'Add at least one service'),
+  core_stack: stringList,
+  strengths: stringList,
+  process: stringList,
+  faqs: z.array(z.object({ q: nonEmpty, a: nonEmpty })),
+  tone: nonEmpty,
+}) satisfies z.ZodType<KB>;
+
+export const ProjectSchema = z.object({
+  project_id: nonEmpty,
+  name: nonEmpty,
+  slug: z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Use lowercase letters, numbers and dashes'),
+  category: nonEmpty,
+  client_name: nonEmpty,
+  status: nonEmpty,
+  start_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD'),
+  budget: nonEmpty,
+  team_members: stringList,
+  frontend_stack: stringList,
+  backend_stack: stringList,
+  integrations: stringList,
+  deployment: z.string(),
+  goal_summary: nonEmpty,
+  core_features: stringList,
+  target_users: z.string(),
+  unique_value: z.string(),
+  challenges: stringList,
+  solutions: stringList,
+  experience: z.string().optional(),
+  lessons_learned: z.string(),
+  communication_tools: stringList,
+  update_frequency: z.string(),
+  conversation_id: z.string(),
+  tags: stringList,
+  ai_context_note: z.string(),
+  timeline: z.string().optional(),
+  development_flow: stringList.optional(),
+}) satisfies z.ZodType<Project>;
+
+export const ProjectListSchema = z.array(ProjectSchema).superRefine((projects, ctx) => {
+  // project_id and slug are used as keys across the app, so they must be unique
+  for (const key of ['project_id', 'slug'] as const) {
+    const seen = new Set<string>();
+    projects.forEach((project, i) => {
+      if (seen.has(project[key])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: [i, key], message: `Duplicate ${key}` });
+      }
+      seen.add(project[key]);
+    });
+  }
+});
+
+export type FieldErrors = Record<string, string>;
+
+/**
+ * Flatten zod issues into `{ "faqs.0.q": "Required" }` style field errors
+ */
+export function toFieldErrors(error: z.ZodError, prefix?: string): FieldErrors {
+  const errors: FieldErrors = {};
+  for (const issue of error.issues) {
+    const path = [prefix, ...issue.path].filter(part => part !== undefined).join('.');
+    if (!errors[path]) {
+      errors[path] = issue.message;
+    }
+  }
+  return errors;
+}
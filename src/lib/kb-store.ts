@@ -0,0 +1,127 @@
+// src/lib/kb-store.ts
+// Validated, versioned writes to the knowledge base JSON files in public/
+// This file is only used on the server side
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { revalidatePath } from 'next/cache';
+import { DATA_DIR } from '@/lib/file-store';
+import type { KB, Project } from '@/lib/kb';
+import { FieldErrors, KBSchema, ProjectListSchema, toFieldErrors } from '@/lib/kb-schema';
+import { invalidateIndex } from '@/lib/retrieval';
+
+// The legacy projects.json is read-only: its older format is only adapted when
+// loading. Saving a project with the same id or slug to experience.json
+// overrides the legacy record (see buildProjectCatalog).
+export const KNOWLEDGE_FILES = {
+  kb: 'auraxpro-kb.json',
+  projects: 'experience.json',
+} as const;
+
+export type KnowledgeFile = keyof typeof KNOWLEDGE_FILES;
+
+export interface KnowledgeVersion {
+  file: KnowledgeFile;
+  version: string;
+  savedAt: number;
+}
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+const VERSIONS_DIR = path.join(DATA_DIR, 'kb-versions');
+
+// Keep this many previous versions per file
+const MAX_VERSIONS = 50;
+
+function publicPath(file: KnowledgeFile): string {
+  return path.join(PUBLIC_DIR, KNOWLEDGE_FILES[file]);
+}
+
+export async function readKnowledgeFile(file: 'kb'): Promise<KB>;
+export async function readKnowledgeFile(file: 'projects'): Promise<Project[]>;
+export async function readKnowledgeFile(file: KnowledgeFile): Promise<KB | Project[]> {
+  return JSON.parse(await fs.readFile(publicPath(file), 'utf8'));
+}
+
+export async function listVersions(): Promise<KnowledgeVersion[]> {
+  let entries: string[];
+  try {
+    entries = await fs.readdir(VERSIONS_DIR);
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return entries
+    .map(version => {
+      const match = version.match(/^(kb|projects)\.(\d+)\.json$/);
+      return match ? { file: match[1] as KnowledgeFile, version, savedAt: Number(match[2]) } : null;
+    })
+    .filter((v): v is KnowledgeVersion => v !== null)
+    .sort((a, b) => b.savedAt - a.savedAt);
+}
+
+/**
+ * Snapshot the current file into the versions directory, pruning old snapshots
+ */
+async function snapshot(file: KnowledgeFile): Promise<void> {
+  await fs.mkdir(VERSIONS_DIR, { recursive: true });
+  await fs.copyFile(publicPath(file), path.join(VERSIONS_DIR, `${file}.${Date.now()}.json`));
+
+  const stale = (await listVersions()).filter(v => v.file === file).slice(MAX_VERSIONS);
+  await Promise.all(stale.map(v => fs.unlink(path.join(VERSIONS_DIR, v.version))));
+}
+
+async function write(file: KnowledgeFile, data: unknown): Promise<void> {
+  await snapshot(file);
+  const target = publicPath(file);
+  const tmp = `${target}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data, null, 2) + '\n', 'utf8');
+  await fs.rename(tmp, target);
+  invalidateIndex();
+  if (file === 'projects') {
+    // Portfolio pages and the sitemap are generated from the project list
+    revalidatePath('/portfolio', 'layout');
+    revalidatePath('/sitemap.xml');
+  }
+}
+
+export interface KnowledgeUpdate {
+  kb?: unknown;
+  projects?: unknown;
+}
+
+/**
+ * Validate and save the knowledge base and/or project list. Nothing is written
+ * unless every given part validates; field errors are keyed like "kb.faqs.0.q".
+ */
+export async function saveKnowledge(
+  update: KnowledgeUpdate
+): Promise<{ kb?: KB; projects?: Project[]; fieldErrors?: FieldErrors }> {
+  const kb = update.kb !== undefined ? KBSchema.safeParse(update.kb) : null;
+  const projects = update.projects !== undefined ? ProjectListSchema.safeParse(update.projects) : null;
+
+  const fieldErrors: FieldErrors = {
+    ...(kb && !kb.success ? toFieldErrors(kb.error, 'kb') : {}),
+    ...(projects && !projects.success ? toFieldErrors(projects.error, 'projects') : {}),
+  };
+  if (Object.keys(fieldErrors).length > 0) {
+    return { fieldErrors };
+  }
+
+  if (kb?.success) await write('kb', kb.data);
+  if (projects?.success) await write('projects', projects.data);
+  return { kb: kb?.data, projects: projects?.data };
+}
+
+/**
+ * Restore a previous version (the current file is snapshotted first)
+ */
+export async function restoreVersion(version: string): Promise<KnowledgeFile> {
+  const match = (await listVersions()).find(v => v.version === version);
+  if (!match) {
+    throw new Error(`Unknown version "${version}"`);
+  }
+  const data = JSON.parse(await fs.readFile(path.join(VERSIONS_DIR, match.version), 'utf8'));
+  await write(match.file, data);
+  return match.file;
+}
@@ -6,21 +6,34 @@ export type KB = {
   faqs: { q: string; a: string }[]; tone: string;
 };
 
-export async function loadKB(): Promise<KB> {
-  const res = await fetch('/auraxpro-kb.json', { cache: 'no-store' });
-  return res.json();
+export interface Project {
+  project_id: string;
+  name: string;
+  slug: string;
+  category: string;
+  client_name: string;
+  status: string;
+  start_date: string;
+  budget: string;
+  team_members: string[];
+  frontend_stack: string[];
+  backend_stack: string[];
+  integrations: string[];
+  deployment: string;
+  goal_summary: string;
+  core_features: string[];
+  target_users: string;
+  unique_value: string;
+  challenges: string[];
+  solutions: string[];
+  experience?: string;
+  lessons_learned: string;
+  communication_tools: string[];
+  update_frequency: string;
+  conversation_id: string;
+  tags: string[];
+  ai_context_note: string;
+  /** Only set on projects adapted from the legacy projects.json format */
+  timeline?: string;
+  development_flow?: string[];
 }
-
-export function kbToContext(kb: KB) {
-  const lines = [
-    `Brand: ${kb.brand} (${kb.site})`,
-    `Services: ${kb.services.join(', ')}`,
-    `Core stack: ${kb.core_stack.join(', ')}`,
-    `Strengths: ${kb.strengths.join(', ')}`,
-    `Process: ${kb.process.join(' → ')}`,
-    `FAQs:\n${kb.faqs.map(f => `- Q: ${f.q}\n  A: ${f.a}`).join('\n')}`,
-    `Tone: ${kb.tone}`
-  ];
-  return lines.join('\n');
-}
-
@@ -0,0 +1,49 @@
+// src/lib/lead-store.ts
+// Persists captured leads and forwards them to an optional webhook
+// This file is only used on the server side
+
+import { randomUUID } from 'crypto';
+import { appendRecord, readCollection } from '@/lib/file-store';
+import type { Lead, LeadInput } from '@/lib/leads';
+
+const COLLECTION = 'leads';
+
+// Keeps a slow webhook from holding up the visitor's form submission
+const WEBHOOK_TIMEOUT_MS = 5000;
+
+export async function saveLead(input: LeadInput): Promise<Lead> {
+  const lead: Lead = {
+    ...input,
+    id: randomUUID(),
+    createdAt: Date.now(),
+  };
+  return appendRecord(COLLECTION, lead);
+}
+
+export async function listLeads(): Promise<Lead[]> {
+  const leads = await readCollection<Lead>(COLLECTION);
+  return leads.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * POST the lead to LEADS_WEBHOOK_URL if configured. Failures are logged, not
+ * thrown: the lead is already stored and the visitor shouldn't see an error.
+ */
+export async function forwardLead(lead: Lead): Promise<void> {
+  const url = process.env.LEADS_WEBHOOK_URL;
+  if (!url) return;
+
+  try {
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ type: 'lead.created', lead }),
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    if (!res.ok) {
+      console.error(`Lead webhook responded with ${res.status}`);
+    }
+  } catch (error) {
+    console.error('Lead webhook failed:', error);
+  }
+}
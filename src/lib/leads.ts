@@ -0,0 +1,86 @@
+// src/lib/leads.ts
+// Lead capture types and validation, shared by the chat UI and /api/leads
+
+import { DEFAULT_LOCALE, Locale, translate } from '@/lib/i18n';
+
+export const BUDGET_RANGES = [
+  'Under $5k',
+  '$5k – $15k',
+  '$15k – $35k',
+  '$35k – $75k',
+  '$75k+',
+  'Not sure yet',
+] as const;
+
+export type BudgetRange = typeof BUDGET_RANGES[number];
+
+export interface LeadInput {
+  name: string;
+  email: string;
+  budget: BudgetRange;
+  summary: string;
+  conversationId?: string;
+}
+
+export interface Lead extends LeadInput {
+  id: string;
+  createdAt: number;
+}
+
+/** Fields the assistant may prefill when it proposes the form */
+export type LeadPrefill = Partial<Pick<LeadInput, 'name' | 'email' | 'budget' | 'summary'>>;
+
+export type LeadFieldErrors = Partial<Record<keyof LeadInput, string>>;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const SUMMARY_MIN = 10;
+const SUMMARY_MAX = 4000;
+
+/**
+ * Validate a lead submission. Returns the cleaned lead, or field-level errors
+ * worded in the visitor's interface language.
+ */
+export function validateLead(
+  input: any,
+  locale: Locale = DEFAULT_LOCALE
+): { lead?: LeadInput; errors?: LeadFieldErrors } {
+  const errors: LeadFieldErrors = {};
+  const name = typeof input?.name === 'string' ? input.name.trim() : '';
+  const email = typeof input?.email === 'string' ? input.email.trim() : '';
+  const summary = typeof input?.summary === 'string' ? input.summary.trim() : '';
+  const budget = input?.budget;
+
+  if (!name) {
+    errors.name = translate(locale, 'lead.nameRequired');
+  } else if (name.length > 100) {
+    errors.name = translate(locale, 'lead.nameTooLong');
+  }
+
+  if (!EMAIL_PATTERN.test(email) || email.length > 200) {
+    errors.email = translate(locale, 'lead.emailInvalid');
+  }
+
+  if (!BUDGET_RANGES.includes(budget)) {
+    errors.budget = translate(locale, 'lead.budgetRequired');
+  }
+
+  if (summary.length < SUMMARY_MIN) {
+    errors.summary = translate(locale, 'lead.summaryTooShort', { min: SUMMARY_MIN });
+  } else if (summary.length > SUMMARY_MAX) {
+    errors.summary = translate(locale, 'lead.summaryTooLong', { max: SUMMARY_MAX });
+  }
+
+  if (Object.keys(errors).length > 0) {
+    return { errors };
+  }
+
+  return {
+    lead: {
+      name,
+      email,
+      budget,
+      summary,
+      conversationId: typeof input?.conversationId === 'string' ? input.conversationId : undefined,
+    },
+  };
+}
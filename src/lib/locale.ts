@@ -0,0 +1,15 @@
+// src/lib/locale.ts
+// Locale of the current request: the switcher's cookie, else Accept-Language
+// This file is only used on the server side
+
+import { cookies, headers } from 'next/headers';
+import { LOCALE_COOKIE, Locale, isLocale, matchLocale } from '@/lib/i18n';
+
+/**
+ * Resolve the visitor's locale (server components and route handlers)
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const chosen = (await cookies()).get(LOCALE_COOKIE)?.value;
+  if (isLocale(chosen)) return chosen;
+  return matchLocale((await headers()).get('accept-language'));
+}
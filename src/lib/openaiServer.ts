@@ -1,15 +1,7 @@
-// Secure server-side OpenAI client
+// Secure server-side LLM helper
 // This file is only used on the server side
 
-import OpenAI from 'openai';
-
-if (!process.env.OPENAI_API_KEY) {
-  throw new Error('OPENAI_API_KEY is not set in server environment');
-}
-
-export const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { getProvider } from '@/lib/providers';
 
 const SYSTEM_PROMPT = 'You are AuraXPro AI Assistant. Be concise, helpful, and friendly.';
 
@@ -23,12 +15,7 @@ export async function sendMessage(
     { role: 'user' as const, content: userMessage },
   ];
 
-  const response = await openai.chat.completions.create({
-    model: 'gpt-4o-mini',
-    messages: messages as any,
-    stream: false,
-  });
+  const response = await getProvider().complete({ messages });
 
-  return response.choices[0]?.message?.content || 'No response received';
+  return response.content || 'No response received';
 }
-
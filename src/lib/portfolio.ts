@@ -0,0 +1,90 @@
+// src/lib/portfolio.ts
+// Public portfolio built from the project catalog: filters for the index page
+// and structured data for the project pages
+
+import { Project, projectStack, projectsByCategory, projectsByStack, projectsByTag } from '@/lib/projects';
+
+const siteUrl = process.env.NEXT_PUBLIC_SITE_URL || 'https://auraxpro.com';
+
+export interface PortfolioFilters {
+  category?: string;
+  stack?: string;
+  tag?: string;
+}
+
+export interface PortfolioFacets {
+  categories: string[];
+  stacks: string[];
+  tags: string[];
+}
+
+export function portfolioPath(project: Project): string {
+  return `/portfolio/${project.slug}`;
+}
+
+function sortedUnique(values: string[]): string[] {
+  return Array.from(new Set(values.filter(Boolean))).sort((a, b) => a.localeCompare(b));
+}
+
+/**
+ * Every category, technology and tag used by at least one project
+ */
+export function portfolioFacets(projects: Project[]): PortfolioFacets {
+  return {
+    categories: sortedUnique(projects.map(p => p.category)),
+    stacks: sortedUnique(projects.flatMap(projectStack)),
+    tags: sortedUnique(projects.flatMap(p => p.tags)),
+  };
+}
+
+/**
+ * Projects matching every given filter (exact, case-insensitive)
+ */
+export function filterProjects(projects: Project[], filters: PortfolioFilters): Project[] {
+  let shown = projects;
+  if (filters.category) shown = projectsByCategory(shown, filters.category);
+  if (filters.stack) shown = projectsByStack(shown, filters.stack);
+  if (filters.tag) shown = projectsByTag(shown, filters.tag);
+  return shown;
+}
+
+/**
+ * JSON-LD for a project page: the project as a piece of work by AuraXPro,
+ * and the software it produced
+ */
+export function projectStructuredData(project: Project): object[] {
+  const url = `${siteUrl}${portfolioPath(project)}`;
+  const image = `${url}/opengraph-image`;
+  const creator = { '@type': 'Organization', name: 'AuraXPro', url: siteUrl };
+
+  return [
+    {
+      '@context': 'https://schema.org',
+      '@type': 'CreativeWork',
+      name: project.name,
+      url,
+      image,
+      description: project.goal_summary,
+      abstract: project.unique_value || undefined,
+      genre: project.category || undefined,
+      keywords: project.tags.join(', ') || undefined,
+      dateCreated: project.start_date || undefined,
+      creativeWorkStatus: project.status.replace(/_/g, ' ') || undefined,
+      creator,
+      audience: project.target_users ? { '@type': 'Audience', audienceType: project.target_users } : undefined,
+    },
+    {
+      '@context': 'https://schema.org',
+      '@type': 'SoftwareApplication',
+      name: project.name,
+      url,
+      image,
+      description: project.goal_summary,
+      applicationCategory: project.category || undefined,
+      operatingSystem: 'Web',
+      featureList: project.core_features,
+      softwareRequirements: projectStack(project).join(', '),
+      author: creator,
+    },
+  ];
+}
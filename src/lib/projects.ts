@@ -0,0 +1,203 @@
+// src/lib/projects.ts
+// The project catalog: experience.json records plus legacy projects.json
+// records adapted to the same shape, validated, with typed query helpers.
+// Used on both the server (retrieval, tools, pages) and the client (chat).
+
+import { z } from 'zod';
+import type { Project } from '@/lib/kb';
+import { ProjectSchema, toFieldErrors } from '@/lib/kb-schema';
+
+export type { Project } from '@/lib/kb';
+
+/** A record of the older projects.json format */
+export interface LegacyProject {
+  id: string;
+  name: string;
+  description?: string;
+  stack?: string[];
+  experience?: string;
+  challenges?: string[];
+  developmentFlow?: string[];
+  budget?: string;
+  timeline?: string;
+  status?: string;
+}
+
+export const LegacyProjectSchema = z.object({
+  id: z.string().trim().min(1, 'Required'),
+  name: z.string().trim().min(1, 'Required'),
+  description: z.string().optional(),
+  stack: z.array(z.string()).optional(),
+  experience: z.string().optional(),
+  challenges: z.array(z.string()).optional(),
+  developmentFlow: z.array(z.string()).optional(),
+  budget: z.string().optional(),
+  timeline: z.string().optional(),
+  status: z.string().optional(),
+}) satisfies z.ZodType<LegacyProject>;
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
+
+/**
+ * "In Progress" → "in_progress", matching the statuses used in experience.json
+ */
+export function normalizeStatus(status: string): string {
+  return status.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+/**
+ * Convert a legacy record to the canonical shape. The legacy format has no
+ * category, client, dates or stack split, so those stay empty and the whole
+ * stack is listed as frontend.
+ */
+export function fromLegacyProject(legacy: LegacyProject): Project {
+  return {
+    project_id: legacy.id,
+    name: legacy.name,
+    slug: slugify(legacy.name) || slugify(legacy.id),
+    category: '',
+    client_name: '',
+    status: legacy.status ? normalizeStatus(legacy.status) : '',
+    start_date: '',
+    budget: legacy.budget || '',
+    team_members: [],
+    frontend_stack: legacy.stack || [],
+    backend_stack: [],
+    integrations: [],
+    deployment: '',
+    goal_summary: legacy.description || '',
+    core_features: [],
+    target_users: '',
+    unique_value: '',
+    challenges: legacy.challenges || [],
+    solutions: [],
+    experience: legacy.experience,
+    lessons_learned: '',
+    communication_tools: [],
+    update_frequency: '',
+    conversation_id: '',
+    tags: [],
+    ai_context_note: '',
+    timeline: legacy.timeline,
+    development_flow: legacy.developmentFlow,
+  };
+}
+
+/**
+ * Build the catalog from the raw contents of experience.json and projects.json.
+ * Invalid records are skipped (and logged) rather than taking every project
+ * page down. Legacy records whose id or slug is already taken are left out,
+ * so experience.json wins when a project exists in both.
+ */
+export function buildProjectCatalog(experience: unknown, legacy?: unknown): Project[] {
+  const projects: Project[] = [];
+  const ids = new Set<string>();
+  const slugs = new Set<string>();
+  const add = (project: Project) => {
+    if (ids.has(project.project_id) || slugs.has(project.slug)) return;
+    ids.add(project.project_id);
+    slugs.add(project.slug);
+    projects.push(project);
+  };
+
+  (Array.isArray(experience) ? experience : []).forEach((record, i) => {
+    const result = ProjectSchema.safeParse(record);
+    if (result.success) {
+      add(result.data);
+    } else {
+      console.error(`Skipping invalid project at experience.json[${i}]:`, toFieldErrors(result.error));
+    }
+  });
+
+  const legacyRecords = (legacy as { projects?: unknown } | undefined)?.projects;
+  (Array.isArray(legacyRecords) ? legacyRecords : []).forEach((record, i) => {
+    const result = LegacyProjectSchema.safeParse(record);
+    if (result.success) {
+      add(fromLegacyProject(result.data));
+    } else {
+      console.error(`Skipping invalid project at projects.json[${i}]:`, toFieldErrors(result.error));
+    }
+  });
+
+  return projects;
+}
+
+/**
+ * Load the catalog in the browser from the public JSON files
+ */
+export async function fetchProjects(): Promise<Project[]> {
+  const read = async (url: string) => {
+    try {
+      const res = await fetch(url);
+      return res.ok ? await res.json() : undefined;
+    } catch (error) {
+      console.error(`Failed to load ${url}:`, error);
+      return undefined;
+    }
+  };
+  const [experience, legacy] = await Promise.all([read('/experience.json'), read('/projects.json')]);
+  return buildProjectCatalog(experience, legacy);
+}
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+export function findProjectBySlug(projects: Project[], slug: string): Project | undefined {
+  return projects.find(p => p.slug === slug);
+}
+
+export function findProjectById(projects: Project[], projectId: string): Project | undefined {
+  return projects.find(p => p.project_id === projectId);
+}
+
+/**
+ * The conversation a project's chat is stored under
+ */
+export function projectConversationId(project: Project): string {
+  return project.conversation_id || `project-${project.project_id}`;
+}
+
+/**
+ * Resolve the project a conversation is about (project chats use the
+ * project's conversation_id or a `project-<project_id>` id)
+ */
+export function findConversationProject(projects: Project[], conversationId: string): Project | undefined {
+  return projects.find(p =>
+    p.conversation_id === conversationId || `project-${p.project_id}` === conversationId
+  );
+}
+
+/**
+ * Frontend and backend technologies, without duplicates
+ */
+export function projectStack(project: Project): string[] {
+  return Array.from(new Set([...project.frontend_stack, ...project.backend_stack]));
+}
+
+/**
+ * The stack plus third-party integrations (Shopify, Stripe, …)
+ */
+export function projectTechnologies(project: Project): string[] {
+  return Array.from(new Set([...projectStack(project), ...project.integrations]));
+}
+
+/** Case-insensitive, exact match */
+export function projectsByCategory(projects: Project[], category: string): Project[] {
+  return projects.filter(p => same(p.category, category));
+}
+
+/** Case-insensitive, exact match on any stack technology or integration */
+export function projectsByStack(projects: Project[], technology: string): Project[] {
+  return projects.filter(p => projectTechnologies(p).some(tech => same(tech, technology)));
+}
+
+/** Case-insensitive, exact match */
+export function projectsByTag(projects: Project[], tag: string): Project[] {
+  return projects.filter(p => p.tags.some(t => same(t, tag)));
+}
+
+/** Accepts either spelling ("In Progress" or "in_progress") */
+export function projectsByStatus(projects: Project[], status: string): Project[] {
+  return projects.filter(p => p.status === normalizeStatus(status));
+}
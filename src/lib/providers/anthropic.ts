@@ -0,0 +1,231 @@
+// src/lib/providers/anthropic.ts
+// Anthropic Messages API provider (plain fetch, no SDK dependency)
+
+import {
+  CompletionRequest,
+  CompletionResult,
+  LLMMessage,
+  LLMProvider,
+  ProviderError,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from './types';
+
+const API_URL = 'https://api.anthropic.com/v1/messages';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+interface AnthropicOptions {
+  apiKey: string;
+  defaultModel: string;
+  baseURL?: string;
+}
+
+/**
+ * Tool arguments as Anthropic expects them: an object. Malformed arguments from
+ * the model are kept in the history (see executeTool) and sent back as `{}`.
+ */
+function parseToolInput(raw: string): Record<string, unknown> {
+  try {
+    const input = JSON.parse(raw || '{}');
+    return input && typeof input === 'object' && !Array.isArray(input) ? input : {};
+  } catch {
+    return {};
+  }
+}
+
+function splitSystem(messages: LLMMessage[]) {
+  const system = messages
+    .filter(m => m.role === 'system')
+    .map(m => m.content)
+    .join('\n\n');
+
+  const rest: Array<{ role: 'user' | 'assistant'; content: any }> = [];
+  for (const msg of messages) {
+    if (msg.role === 'system') continue;
+
+    if (msg.role === 'tool') {
+      // Tool results travel as user turns; consecutive results share one turn
+      const block = { type: 'tool_result', tool_use_id: msg.toolCallId, content: msg.content };
+      const last = rest[rest.length - 1];
+      if (last?.role === 'user' && Array.isArray(last.content)) {
+        last.content.push(block);
+      } else {
+        rest.push({ role: 'user', content: [block] });
+      }
+    } else if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      rest.push({
+        role: 'assistant',
+        content: [
+          ...(msg.content ? [{ type: 'text', text: msg.content }] : []),
+          ...msg.toolCalls.map(call => ({
+            type: 'tool_use',
+            id: call.id,
+            name: call.name,
+            input: parseToolInput(call.arguments),
+          })),
+        ],
+      });
+    } else {
+      rest.push({ role: msg.role, content: msg.content });
+    }
+  }
+
+  return { system: system || undefined, messages: rest };
+}
+
+function toAnthropicTools(tools?: ToolDefinition[]) {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    input_schema: tool.parameters,
+  }));
+}
+
+function toUsage(inputTokens: number, outputTokens: number): TokenUsage {
+  return {
+    promptTokens: inputTokens,
+    completionTokens: outputTokens,
+    totalTokens: inputTokens + outputTokens,
+  };
+}
+
+async function toProviderError(res: Response): Promise<ProviderError> {
+  let message = `Anthropic request failed with status ${res.status}`;
+  let code: string | undefined;
+  try {
+    const body = await res.json();
+    message = body?.error?.message || message;
+    code = body?.error?.type;
+  } catch {
+    // Keep the generic message
+  }
+  return new ProviderError(message, res.status, code);
+}
+
+export function createAnthropicProvider(options: AnthropicOptions): LLMProvider {
+  const url = options.baseURL || API_URL;
+
+  const post = async (request: CompletionRequest, stream: boolean) => {
+    const { system, messages } = splitSystem(request.messages);
+    const res = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': options.apiKey,
+        'anthropic-version': API_VERSION,
+      },
+      body: JSON.stringify({
+        model: request.model || options.defaultModel,
+        max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system,
+        messages,
+        tools: toAnthropicTools(request.tools),
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!res.ok) {
+      throw await toProviderError(res);
+    }
+    return res;
+  };
+
+  return {
+    name: 'anthropic',
+    defaultModel: options.defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const res = await post(request, false);
+      const body = await res.json();
+      const blocks: any[] = body.content || [];
+      const content = blocks
+        .filter(block => block.type === 'text')
+        .map(block => block.text)
+        .join('');
+      const toolCalls: ToolCall[] = blocks
+        .filter(block => block.type === 'tool_use')
+        .map(block => ({ id: block.id, name: block.name, arguments: JSON.stringify(block.input || {}) }));
+
+      return {
+        content,
+        model: body.model || request.model || options.defaultModel,
+        usage: body.usage
+          ? toUsage(body.usage.input_tokens || 0, body.usage.output_tokens || 0)
+          : undefined,
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      };
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<StreamChunk> {
+      const res = await post(request, true);
+      if (!res.body) {
+        throw new ProviderError('No response body from Anthropic');
+      }
+
+      const reader = res.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let inputTokens = 0;
+      let outputTokens = 0;
+      // tool_use blocks stream their input as partial JSON, keyed by block index
+      const pendingCalls = new Map<number, ToolCall>();
+
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are separated by a blank line
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const rawEvent = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          const dataLine = rawEvent.split('\n').find(line => line.startsWith('data:'));
+          if (!dataLine) continue;
+
+          const event = JSON.parse(dataLine.slice(5).trim());
+          switch (event.type) {
+            case 'message_start':
+              inputTokens = event.message?.usage?.input_tokens || 0;
+              break;
+            case 'content_block_start':
+              if (event.content_block?.type === 'tool_use') {
+                pendingCalls.set(event.index, {
+                  id: event.content_block.id,
+                  name: event.content_block.name,
+                  arguments: '',
+                });
+              }
+              break;
+            case 'content_block_delta':
+              if (event.delta?.type === 'text_delta' && event.delta.text) {
+                yield { type: 'delta', content: event.delta.text };
+              } else if (event.delta?.type === 'input_json_delta') {
+                const call = pendingCalls.get(event.index);
+                if (call) call.arguments += event.delta.partial_json || '';
+              }
+              break;
+            case 'message_delta':
+              outputTokens = event.usage?.output_tokens || outputTokens;
+              break;
+            case 'error':
+              throw new ProviderError(event.error?.message || 'Anthropic stream error', undefined, event.error?.type);
+          }
+        }
+      }
+
+      for (const call of Array.from(pendingCalls.values())) {
+        yield { type: 'tool_call', call: { ...call, arguments: call.arguments || '{}' } };
+      }
+      yield { type: 'usage', usage: toUsage(inputTokens, outputTokens) };
+    },
+  };
+}
@@ -0,0 +1,85 @@
+// src/lib/providers/index.ts
+// LLM provider selection, configured per environment
+// This file is only used on the server side
+//
+//   LLM_PROVIDER        openai | anthropic | local | mock
+//                       (defaults to "mock" when NODE_ENV=test, otherwise "openai")
+//   LLM_MODEL           overrides the provider's default model
+//   OPENAI_API_KEY      required for "openai"
+//   ANTHROPIC_API_KEY   required for "anthropic"
+//   LOCAL_LLM_BASE_URL  OpenAI-compatible endpoint for "local" (default: Ollama on localhost)
+//   LOCAL_LLM_API_KEY   optional key for "local"
+
+import { createAnthropicProvider } from './anthropic';
+import { createMockProvider } from './mock';
+import { createOpenAICompatibleProvider } from './openai';
+import type { LLMProvider, ProviderName } from './types';
+
+export * from './types';
+
+const DEFAULT_MODELS: Record<ProviderName, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+  mock: 'mock-1',
+};
+
+let providerInstance: LLMProvider | null = null;
+
+function resolveProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER?.toLowerCase();
+  if (configured) {
+    if (!(configured in DEFAULT_MODELS)) {
+      throw new Error(`Unknown LLM_PROVIDER "${configured}"`);
+    }
+    return configured as ProviderName;
+  }
+  return process.env.NODE_ENV === 'test' ? 'mock' : 'openai';
+}
+
+function createProvider(name: ProviderName): LLMProvider {
+  const defaultModel = process.env.LLM_MODEL || DEFAULT_MODELS[name];
+
+  switch (name) {
+    case 'openai':
+      if (!process.env.OPENAI_API_KEY) {
+        throw new Error('OPENAI_API_KEY is not set in server environment');
+      }
+      return createOpenAICompatibleProvider({
+        name,
+        apiKey: process.env.OPENAI_API_KEY,
+        defaultModel,
+        streamUsage: true,
+      });
+
+    case 'anthropic':
+      if (!process.env.ANTHROPIC_API_KEY) {
+        throw new Error('ANTHROPIC_API_KEY is not set in server environment');
+      }
+      return createAnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        defaultModel,
+      });
+
+    case 'local':
+      return createOpenAICompatibleProvider({
+        name,
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+        baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+        defaultModel,
+      });
+
+    case 'mock':
+      return createMockProvider();
+  }
+}
+
+/**
+ * Get the configured LLM provider (created once per server process)
+ */
+export function getProvider(): LLMProvider {
+  if (!providerInstance) {
+    providerInstance = createProvider(resolveProviderName());
+  }
+  return providerInstance;
+}
@@ -0,0 +1,66 @@
+// src/lib/providers/mock.ts
+// Deterministic offline provider for tests and local development
+
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMProvider,
+  StreamChunk,
+  TokenUsage,
+} from './types';
+
+const MOCK_MODEL = 'mock-1';
+
+// Optional pause between streamed tokens, to try out stopping a reply by hand
+const TOKEN_DELAY_MS = Number(process.env.MOCK_LLM_DELAY_MS) || 0;
+
+function countTokens(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Build the canned reply. `MOCK_LLM_RESPONSE` overrides it entirely;
+ * otherwise the last user message is echoed so tests can assert on it.
+ */
+function buildReply(request: CompletionRequest): string {
+  if (process.env.MOCK_LLM_RESPONSE) {
+    return process.env.MOCK_LLM_RESPONSE;
+  }
+  const lastUser = [...request.messages].reverse().find(m => m.role === 'user');
+  return `This is a mock response to: "${lastUser?.content ?? ''}"`;
+}
+
+function buildUsage(request: CompletionRequest, reply: string): TokenUsage {
+  const promptTokens = request.messages.reduce((sum, m) => sum + countTokens(m.content), 0);
+  const completionTokens = countTokens(reply);
+  return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+}
+
+export function createMockProvider(): LLMProvider {
+  return {
+    name: 'mock',
+    defaultModel: MOCK_MODEL,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const content = buildReply(request);
+      return {
+        content,
+        model: request.model || MOCK_MODEL,
+        usage: buildUsage(request, content),
+      };
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<StreamChunk> {
+      const reply = buildReply(request);
+      // Stream word by word, keeping the whitespace so the joined deltas equal the reply
+      for (const token of reply.match(/\S+\s*/g) || []) {
+        request.signal?.throwIfAborted();
+        if (TOKEN_DELAY_MS) {
+          await new Promise(resolve => setTimeout(resolve, TOKEN_DELAY_MS));
+        }
+        yield { type: 'delta', content: token };
+      }
+      yield { type: 'usage', usage: buildUsage(request, reply) };
+    },
+  };
+}
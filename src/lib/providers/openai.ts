@@ -0,0 +1,138 @@
+// src/lib/providers/openai.ts
+// OpenAI provider, also used for OpenAI-compatible local endpoints (Ollama, llama.cpp)
+
+import OpenAI from 'openai';
+import type {
+  CompletionRequest,
+  CompletionResult,
+  LLMMessage,
+  LLMProvider,
+  ProviderName,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from './types';
+
+interface OpenAICompatibleOptions {
+  name: ProviderName;
+  apiKey: string;
+  defaultModel: string;
+  baseURL?: string;
+  /** Ask the server to append a usage chunk to streams (not every local server supports it) */
+  streamUsage?: boolean;
+}
+
+function toUsage(usage?: OpenAI.CompletionUsage | null): TokenUsage | undefined {
+  if (!usage) return undefined;
+  return {
+    promptTokens: usage.prompt_tokens,
+    completionTokens: usage.completion_tokens,
+    totalTokens: usage.total_tokens,
+  };
+}
+
+function toOpenAIMessages(messages: LLMMessage[]): OpenAI.ChatCompletionMessageParam[] {
+  return messages.map((msg): OpenAI.ChatCompletionMessageParam => {
+    if (msg.role === 'tool') {
+      return { role: 'tool', tool_call_id: msg.toolCallId, content: msg.content };
+    }
+    if (msg.role === 'assistant' && msg.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: msg.content || null,
+        tool_calls: msg.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function' as const,
+          function: { name: call.name, arguments: call.arguments },
+        })),
+      };
+    }
+    return { role: msg.role, content: msg.content };
+  });
+}
+
+function toOpenAITools(tools?: ToolDefinition[]): OpenAI.ChatCompletionTool[] | undefined {
+  if (!tools || tools.length === 0) return undefined;
+  return tools.map(tool => ({
+    type: 'function',
+    function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+  }));
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LLMProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey,
+    baseURL: options.baseURL,
+  });
+
+  return {
+    name: options.name,
+    defaultModel: options.defaultModel,
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const model = request.model || options.defaultModel;
+      const response = await client.chat.completions.create({
+        model,
+        messages: toOpenAIMessages(request.messages),
+        tools: toOpenAITools(request.tools),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: false,
+      }, { signal: request.signal });
+
+      const message = response.choices[0]?.message;
+      const toolCalls: ToolCall[] = (message?.tool_calls || []).map(call => ({
+        id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      }));
+
+      return {
+        content: message?.content || '',
+        model: response.model || model,
+        usage: toUsage(response.usage),
+        toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      };
+    },
+
+    async *stream(request: CompletionRequest): AsyncIterable<StreamChunk> {
+      const stream = await client.chat.completions.create({
+        model: request.model || options.defaultModel,
+        messages: toOpenAIMessages(request.messages),
+        tools: toOpenAITools(request.tools),
+        temperature: request.temperature,
+        max_tokens: request.maxTokens,
+        stream: true,
+        ...(options.streamUsage ? { stream_options: { include_usage: true } } : {}),
+      }, { signal: request.signal });
+
+      // Tool call fragments arrive spread over many chunks, keyed by index
+      const pendingCalls = new Map<number, ToolCall>();
+      let usage: TokenUsage | undefined;
+
+      for await (const part of stream) {
+        const delta = part.choices?.[0]?.delta;
+        const token = delta?.content || '';
+        if (token) {
+          yield { type: 'delta', content: token };
+        }
+        for (const fragment of delta?.tool_calls || []) {
+          const call = pendingCalls.get(fragment.index) || { id: '', name: '', arguments: '' };
+          call.id = fragment.id || call.id;
+          call.name += fragment.function?.name || '';
+          call.arguments += fragment.function?.arguments || '';
+          pendingCalls.set(fragment.index, call);
+        }
+        usage = toUsage(part.usage) || usage;
+      }
+
+      for (const call of Array.from(pendingCalls.values())) {
+        yield { type: 'tool_call', call };
+      }
+      if (usage) {
+        yield { type: 'usage', usage };
+      }
+    },
+  };
+}
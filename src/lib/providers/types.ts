@@ -0,0 +1,80 @@
+// src/lib/providers/types.ts
+// Shared types for pluggable LLM providers
+
+import type { ChatUsage } from '@/lib/chat-events';
+
+export type ProviderName = 'openai' | 'anthropic' | 'local' | 'mock';
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  /** JSON Schema describing the tool's arguments object */
+  parameters: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  /** Raw JSON-encoded arguments as produced by the model */
+  arguments: string;
+}
+
+export type LLMMessage =
+  | { role: 'system' | 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: ToolCall[] }
+  | { role: 'tool'; toolCallId: string; content: string };
+
+export type TokenUsage = ChatUsage;
+
+export interface CompletionRequest {
+  messages: LLMMessage[];
+  /** Overrides the provider's default model */
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  /** Tools the model may call; providers without tool support ignore them */
+  tools?: ToolDefinition[];
+  /** Aborts the call, e.g. when the visitor stops the reply or disconnects */
+  signal?: AbortSignal;
+}
+
+export interface CompletionResult {
+  content: string;
+  model: string;
+  usage?: TokenUsage;
+  toolCalls?: ToolCall[];
+}
+
+export type StreamChunk =
+  | { type: 'delta'; content: string }
+  | { type: 'tool_call'; call: ToolCall }
+  | { type: 'usage'; usage: TokenUsage };
+
+export interface LLMProvider {
+  name: ProviderName;
+  defaultModel: string;
+  /** Single non-streaming chat completion */
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /**
+   * Streaming chat completion; yields content deltas, any requested tool calls
+   * once complete, and (when available) a final usage chunk
+   */
+  stream(request: CompletionRequest): AsyncIterable<StreamChunk>;
+}
+
+/**
+ * Error thrown by providers that don't go through the OpenAI SDK.
+ * Mirrors the `status`/`code` fields of OpenAI's APIError so callers
+ * can handle every provider the same way.
+ */
+export class ProviderError extends Error {
+  status?: number;
+  code?: string;
+
+  constructor(message: string, status?: number, code?: string) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+    this.code = code;
+  }
+}
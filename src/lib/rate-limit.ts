@@ -0,0 +1,113 @@
+// src/lib/rate-limit.ts
+// Token bucket rate limiting with a pluggable key/value store
+// This file is only used on the server side
+
+import type { NextRequest } from 'next/server';
+
+/**
+ * Minimal async key/value store with expiry. The in-memory store below works
+ * for a single server process; plug in a shared store (e.g. Redis) when
+ * running several instances.
+ */
+export interface RateLimitStore {
+  get<T>(key: string): Promise<T | undefined>;
+  set<T>(key: string, value: T, ttlMs: number): Promise<void>;
+}
+
+export function createMemoryStore(): RateLimitStore {
+  const entries = new Map<string, { value: unknown; expiresAt: number }>();
+  let lastSweep = Date.now();
+
+  // Drop expired keys at most once a minute so the map can't grow forever
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60_000) return;
+    lastSweep = now;
+    entries.forEach((entry, key) => {
+      if (entry.expiresAt <= now) entries.delete(key);
+    });
+  };
+
+  return {
+    async get<T>(key: string) {
+      const entry = entries.get(key);
+      if (!entry || entry.expiresAt <= Date.now()) return undefined;
+      return entry.value as T;
+    },
+    async set<T>(key: string, value: T, ttlMs: number) {
+      const now = Date.now();
+      sweep(now);
+      entries.set(key, { value, expiresAt: now + ttlMs });
+    },
+  };
+}
+
+let store: RateLimitStore = createMemoryStore();
+
+export function getRateLimitStore(): RateLimitStore {
+  return store;
+}
+
+/**
+ * Replace the backing store for every limiter and quota
+ */
+export function setRateLimitStore(next: RateLimitStore): void {
+  store = next;
+}
+
+export interface TokenBucketOptions {
+  /** Bucket size, i.e. the allowed burst */
+  capacity: number;
+  /** Tokens added back per second */
+  refillPerSecond: number;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  /** Seconds until enough tokens are available again (0 when allowed) */
+  retryAfter: number;
+}
+
+interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Take `cost` tokens from the bucket for `key`
+ */
+export async function takeToken(
+  key: string,
+  { capacity, refillPerSecond }: TokenBucketOptions,
+  cost = 1
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const state = await store.get<BucketState>(key);
+  const elapsed = state ? (now - state.updatedAt) / 1000 : 0;
+  const tokens = state ? Math.min(capacity, state.tokens + elapsed * refillPerSecond) : capacity;
+
+  // Keep the bucket around until it would be full again
+  const ttlMs = Math.ceil((capacity / refillPerSecond) * 1000);
+
+  if (tokens < cost) {
+    await store.set<BucketState>(key, { tokens, updatedAt: now }, ttlMs);
+    return { allowed: false, remaining: 0, retryAfter: Math.ceil((cost - tokens) / refillPerSecond) };
+  }
+
+  await store.set<BucketState>(key, { tokens: tokens - cost, updatedAt: now }, ttlMs);
+  return { allowed: true, remaining: Math.floor(tokens - cost), retryAfter: 0 };
+}
+
+/**
+ * Client IP as seen by our own proxies. Each proxy appends the address it
+ * received the request from to X-Forwarded-For, so earlier entries can be
+ * made up by the client; TRUSTED_PROXY_HOPS (default 1) counts from the end.
+ */
+export function getClientIp(req: NextRequest): string {
+  const hops = (req.headers.get('x-forwarded-for') || '').split(',').map(hop => hop.trim()).filter(Boolean);
+  if (hops.length > 0) {
+    const trusted = Math.max(1, Math.floor(Number(process.env.TRUSTED_PROXY_HOPS) || 1));
+    return hops[Math.max(0, hops.length - trusted)];
+  }
+  return req.headers.get('x-real-ip') || 'unknown';
+}
@@ -0,0 +1,391 @@
+// src/lib/retrieval.ts
+// Server-side retrieval over the knowledge base and project records (BM25)
+// This file is only used on the server side
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { KB, Project } from '@/lib/kb';
+import type { ChatCitation } from '@/lib/chat-events';
+import { KBSchema, toFieldErrors } from '@/lib/kb-schema';
+import { buildProjectCatalog } from '@/lib/projects';
+import { DEFAULT_LOCALE, Locale } from '@/lib/i18n';
+
+// 'projects' only appears in citations stored before projects.json was merged
+// into the project catalog
+export type ChunkSource = 'kb' | 'experience' | 'projects';
+
+export interface KnowledgeChunk {
+  id: string;
+  source: ChunkSource;
+  kind: 'overview' | 'service' | 'strengths' | 'process' | 'faq' | 'project';
+  title: string;
+  text: string;
+  /** Index into the source array (services, faqs) when applicable */
+  index?: number;
+  /** project_id / id of the project record when kind === 'project' */
+  projectId?: string;
+}
+
+export interface RetrievedChunk extends KnowledgeChunk {
+  score: number;
+}
+
+export interface Knowledge {
+  kb: KB;
+  /** The project catalog (see src/lib/projects.ts) */
+  projects: Project[];
+}
+
+interface RetrievalIndex extends Knowledge {
+  chunks: KnowledgeChunk[];
+  termFreqs: Map<string, number>[];
+  docLengths: number[];
+  docFreqs: Map<string, number>;
+  avgDocLength: number;
+}
+
+const PUBLIC_DIR = path.join(process.cwd(), 'public');
+
+// BM25 parameters (standard defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from',
+  'have', 'how', 'i', 'in', 'is', 'it', 'me', 'my', 'of', 'on', 'or', 'our', 'that',
+  'the', 'this', 'to', 'was', 'we', 'what', 'with', 'you', 'your',
+]);
+
+// Japanese and Chinese text has no spaces between words
+const CJK_RUN = /^[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー]+$/u;
+
+const knowledgePromises = new Map<Locale, Promise<Knowledge>>();
+const indexPromises = new Map<Locale, Promise<RetrievalIndex>>();
+
+async function readJSON<T>(file: string, options: { optional?: boolean } = {}): Promise<T | null> {
+  try {
+    const raw = await fs.readFile(path.join(PUBLIC_DIR, file), 'utf8');
+    return JSON.parse(raw) as T;
+  } catch (error: any) {
+    if (!(options.optional && error?.code === 'ENOENT')) {
+      console.error(`Failed to read ${file}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Split a CJK run into overlapping character pairs ("開発期間" → 開発, 発期, 期間)
+ */
+function bigrams(run: string): string[] {
+  const chars = Array.from(run);
+  if (chars.length < 2) return chars;
+  return chars.slice(0, -1).map((char, i) => char + chars[i + 1]);
+}
+
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .flatMap(t => (CJK_RUN.test(t) ? bigrams(t) : [t]))
+    .filter(t => (t.length > 1 || CJK_RUN.test(t)) && !STOPWORDS.has(t));
+}
+
+function list(label: string, items?: string[]): string {
+  return items && items.length > 0 ? `${label}: ${items.join(', ')}` : '';
+}
+
+function kbChunks(kb: KB): KnowledgeChunk[] {
+  const chunks: KnowledgeChunk[] = [
+    {
+      id: 'kb:overview',
+      source: 'kb',
+      kind: 'overview',
+      title: `${kb.brand} overview`,
+      text: [`Brand: ${kb.brand} (${kb.site})`, list('Core stack', kb.core_stack)].join('\n'),
+    },
+    {
+      id: 'kb:strengths',
+      source: 'kb',
+      kind: 'strengths',
+      title: 'Strengths',
+      text: list('Strengths', kb.strengths),
+    },
+    {
+      id: 'kb:process',
+      source: 'kb',
+      kind: 'process',
+      title: 'Process',
+      text: `Process: ${kb.process.join(' → ')}`,
+    },
+  ];
+
+  kb.services.forEach((service, index) => {
+    chunks.push({
+      id: `kb:service:${index}`,
+      source: 'kb',
+      kind: 'service',
+      title: service,
+      text: `Service: ${service}`,
+      index,
+    });
+  });
+
+  kb.faqs.forEach((faq, index) => {
+    chunks.push({
+      id: `kb:faq:${index}`,
+      source: 'kb',
+      kind: 'faq',
+      title: faq.q,
+      text: `Q: ${faq.q}\nA: ${faq.a}`,
+      index,
+    });
+  });
+
+  return chunks;
+}
+
+export function projectToContext(project: Project): string {
+  return [
+    `Project Name: ${project.name}`,
+    project.category ? `Category: ${project.category}` : '',
+    project.client_name ? `Client: ${project.client_name}` : '',
+    project.status ? `Status: ${project.status}` : '',
+    project.start_date ? `Start Date: ${project.start_date}` : '',
+    project.budget ? `Budget: ${project.budget}` : '',
+    project.timeline ? `Timeline: ${project.timeline}` : '',
+    project.goal_summary ? `Goal: ${project.goal_summary}` : '',
+    project.experience ? `Experience: ${project.experience}` : '',
+    list('Frontend Stack', project.frontend_stack),
+    list('Backend Stack', project.backend_stack),
+    list('Integrations', project.integrations),
+    project.deployment ? `Deployment: ${project.deployment}` : '',
+    list('Core Features', project.core_features),
+    project.target_users ? `Target Users: ${project.target_users}` : '',
+    project.unique_value ? `Unique Value: ${project.unique_value}` : '',
+    list('Challenges', project.challenges),
+    list('Solutions', project.solutions),
+    list('Development Flow', project.development_flow),
+    project.lessons_learned ? `Lessons Learned: ${project.lessons_learned}` : '',
+    list('Tags', project.tags),
+    project.ai_context_note ? `AI Context Note: ${project.ai_context_note}` : '',
+  ].filter(Boolean).join('\n');
+}
+
+function projectChunks(projects: Project[]): KnowledgeChunk[] {
+  return projects.map(project => ({
+    id: `experience:${project.project_id}`,
+    source: 'experience' as const,
+    kind: 'project' as const,
+    title: project.name,
+    text: projectToContext(project),
+    projectId: project.project_id,
+  }));
+}
+
+/**
+ * Apply the locale's overlay (public/auraxpro-kb.<locale>.json) to the KB.
+ * The overlay holds the translated top-level fields; anything it leaves out
+ * stays English. An invalid overlay is logged and ignored.
+ */
+async function localizeKB(kb: KB, locale: Locale): Promise<KB> {
+  if (locale === DEFAULT_LOCALE) return kb;
+  const overlay = await readJSON<Partial<KB>>(`auraxpro-kb.${locale}.json`, { optional: true });
+  if (!overlay) return kb;
+
+  const result = KBSchema.safeParse({ ...kb, ...overlay });
+  if (!result.success) {
+    console.error(`Ignoring invalid KB overlay auraxpro-kb.${locale}.json:`, toFieldErrors(result.error));
+    return kb;
+  }
+  return result.data;
+}
+
+async function readKnowledge(locale: Locale): Promise<Knowledge> {
+  const [kb, experience, legacy] = await Promise.all([
+    readJSON<KB>('auraxpro-kb.json'),
+    readJSON<unknown>('experience.json'),
+    readJSON<unknown>('projects.json'),
+  ]);
+
+  if (!kb) {
+    throw new Error('Knowledge base (auraxpro-kb.json) could not be loaded');
+  }
+  const kbResult = KBSchema.safeParse(kb);
+  if (!kbResult.success) {
+    throw new Error(`Invalid knowledge base: ${JSON.stringify(toFieldErrors(kbResult.error))}`);
+  }
+
+  return {
+    kb: await localizeKB(kbResult.data, locale),
+    projects: buildProjectCatalog(experience, legacy),
+  };
+}
+
+/**
+ * Get the (cached) raw knowledge: KB and the project catalog. Other locales
+ * get the KB with their overlay applied; project records are not translated.
+ */
+export async function loadKnowledge(locale: Locale = DEFAULT_LOCALE): Promise<Knowledge> {
+  let promise = knowledgePromises.get(locale);
+  if (!promise) {
+    promise = readKnowledge(locale).catch(error => {
+      knowledgePromises.delete(locale);
+      throw error;
+    });
+    knowledgePromises.set(locale, promise);
+  }
+  return promise;
+}
+
+async function buildIndex(locale: Locale): Promise<RetrievalIndex> {
+  const knowledge = await loadKnowledge(locale);
+
+  const chunks = [
+    ...kbChunks(knowledge.kb),
+    ...projectChunks(knowledge.projects),
+  ];
+
+  const termFreqs: Map<string, number>[] = [];
+  const docLengths: number[] = [];
+  const docFreqs = new Map<string, number>();
+
+  for (const chunk of chunks) {
+    const tokens = tokenize(`${chunk.title}\n${chunk.text}`);
+    const tf = new Map<string, number>();
+    for (const token of tokens) {
+      tf.set(token, (tf.get(token) || 0) + 1);
+    }
+    for (const term of tf.keys()) {
+      docFreqs.set(term, (docFreqs.get(term) || 0) + 1);
+    }
+    termFreqs.push(tf);
+    docLengths.push(tokens.length);
+  }
+
+  const totalLength = docLengths.reduce((sum, len) => sum + len, 0);
+
+  return {
+    ...knowledge,
+    chunks,
+    termFreqs,
+    docLengths,
+    docFreqs,
+    avgDocLength: chunks.length > 0 ? totalLength / chunks.length : 0,
+  };
+}
+
+/**
+ * Get the (lazily built, cached) retrieval index of a locale
+ */
+export async function getIndex(locale: Locale = DEFAULT_LOCALE): Promise<RetrievalIndex> {
+  let promise = indexPromises.get(locale);
+  if (!promise) {
+    promise = buildIndex(locale).catch(error => {
+      indexPromises.delete(locale);
+      throw error;
+    });
+    indexPromises.set(locale, promise);
+  }
+  return promise;
+}
+
+/**
+ * Drop the cached knowledge and indexes so the next query re-reads the JSON files
+ */
+export function invalidateIndex(): void {
+  knowledgePromises.clear();
+  indexPromises.clear();
+}
+
+function bm25(index: RetrievalIndex, docIndex: number, queryTerms: string[]): number {
+  const tf = index.termFreqs[docIndex];
+  const docLength = index.docLengths[docIndex];
+  const n = index.chunks.length;
+  let score = 0;
+
+  for (const term of queryTerms) {
+    const freq = tf.get(term);
+    if (!freq) continue;
+    const df = index.docFreqs.get(term) || 0;
+    const idf = Math.log(1 + (n - df + 0.5) / (df + 0.5));
+    const norm = freq + K1 * (1 - B + B * (docLength / (index.avgDocLength || 1)));
+    score += idf * ((freq * (K1 + 1)) / norm);
+  }
+
+  return score;
+}
+
+/**
+ * Return the top-k chunks relevant to the query. When `projectId` is given,
+ * that project's record is always included first.
+ */
+export async function retrieve(
+  query: string,
+  options: { k?: number; projectId?: string; locale?: Locale } = {}
+): Promise<RetrievedChunk[]> {
+  const { k = 6, projectId, locale } = options;
+  const index = await getIndex(locale);
+  const queryTerms = Array.from(new Set(tokenize(query)));
+
+  const pinned: RetrievedChunk[] = [];
+  const scored: RetrievedChunk[] = [];
+
+  index.chunks.forEach((chunk, i) => {
+    if (projectId && chunk.kind === 'project' && chunk.projectId === projectId) {
+      pinned.push({ ...chunk, score: Infinity });
+      return;
+    }
+    const score = bm25(index, i, queryTerms);
+    if (score > 0) {
+      scored.push({ ...chunk, score });
+    }
+  });
+
+  scored.sort((a, b) => b.score - a.score);
+
+  return [...pinned, ...scored].slice(0, Math.max(k, pinned.length));
+}
+
+/**
+ * Label used to cite the i-th retrieved chunk inline (e.g. "[S1]")
+ */
+export function citationMarker(position: number): string {
+  return `S${position + 1}`;
+}
+
+/**
+ * Format retrieved chunks for inclusion in the system prompt
+ */
+export function chunksToContext(chunks: KnowledgeChunk[]): string {
+  return chunks
+    .map((chunk, i) => `[${citationMarker(i)}] ${chunk.title}\n${chunk.text}`)
+    .join('\n\n');
+}
+
+/**
+ * Resolve the inline markers used in an answer back to the chunks they cite,
+ * in order of first mention
+ */
+export function extractCitations(answer: string, chunks: KnowledgeChunk[]): ChatCitation[] {
+  const citations: ChatCitation[] = [];
+  const seen = new Set<number>();
+
+  for (const match of Array.from(answer.matchAll(/\[S(\d+)\]/g))) {
+    const position = Number(match[1]) - 1;
+    const chunk = chunks[position];
+    if (!chunk || seen.has(position)) continue;
+    seen.add(position);
+    citations.push({
+      id: chunk.id,
+      marker: citationMarker(position),
+      source: chunk.source,
+      kind: chunk.kind,
+      title: chunk.title,
+      projectId: chunk.projectId,
+      index: chunk.index,
+    });
+  }
+
+  return citations;
+}
@@ -0,0 +1,135 @@
+// src/lib/session.ts
+// Anonymous visitor sessions backed by an httpOnly cookie. The cookie holds the
+// session id plus a signature, so clients can't make up ids of their own.
+// This file is only used on the server side
+
+import { createCipheriv, createDecipheriv, createHash, createHmac, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { getRateLimitStore } from '@/lib/rate-limit';
+
+export const SESSION_COOKIE = 'axp_session';
+
+const SESSION_MAX_AGE = 60 * 60 * 24 * 365; // 1 year
+const SESSION_PATTERN = /^[0-9a-f-]{36}$/;
+const TRANSFER_TTL_MS = 10 * 60 * 1000;
+
+// Kept on globalThis because route handlers may be bundled separately
+const globalForSession = globalThis as typeof globalThis & { axpSessionSecret?: string };
+
+/**
+ * SESSION_SECRET, or a random secret for this process when it isn't set
+ * (sessions and transfer links then stop working after a restart)
+ */
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (!globalForSession.axpSessionSecret) {
+    console.warn('SESSION_SECRET is not set; using a random secret that is lost on restart');
+    globalForSession.axpSessionSecret = randomBytes(32).toString('hex');
+  }
+  return globalForSession.axpSessionSecret;
+}
+
+/**
+ * HMAC of a value the server hands to the client and expects back unchanged.
+ * `purpose` keeps signatures from one use being accepted for another.
+ */
+export function signValue(purpose: string, value: string): string {
+  return createHmac('sha256', getSessionSecret()).update(`${purpose}:${value}`).digest('base64url');
+}
+
+export function hasValidSignature(purpose: string, value: string, signature: unknown): boolean {
+  if (typeof signature !== 'string') return false;
+  // Hash first so inputs of different lengths can be compared in constant time
+  const expected = createHash('sha256').update(signValue(purpose, value)).digest();
+  const actual = createHash('sha256').update(signature).digest();
+  return timingSafeEqual(expected, actual);
+}
+
+function transferKey(): Buffer {
+  return createHash('sha256').update(`transfer:${getSessionSecret()}`).digest();
+}
+
+export function isValidSessionId(value: unknown): value is string {
+  return typeof value === 'string' && SESSION_PATTERN.test(value);
+}
+
+/**
+ * Read the session id from the request cookie, if present and signed by this server
+ */
+export function getSessionId(req: NextRequest): string | null {
+  const [sessionId, signature] = (req.cookies.get(SESSION_COOKIE)?.value || '').split('.');
+  return isValidSessionId(sessionId) && hasValidSignature('session', sessionId, signature) ? sessionId : null;
+}
+
+/**
+ * Get the visitor's session id, minting a new one when there is none
+ */
+export function resolveSession(req: NextRequest): { sessionId: string; isNew: boolean } {
+  const existing = getSessionId(req);
+  if (existing) {
+    return { sessionId: existing, isNew: false };
+  }
+  return { sessionId: randomUUID(), isNew: true };
+}
+
+export function setSessionCookie(res: NextResponse, sessionId: string): NextResponse {
+  res.cookies.set(SESSION_COOKIE, `${sessionId}.${signValue('session', sessionId)}`, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE,
+  });
+  return res;
+}
+
+interface TransferPayload {
+  sessionId: string;
+  expiresAt: number;
+  nonce: string;
+}
+
+/**
+ * Create a short-lived, single-use token that moves a session to another
+ * device. The payload is encrypted and authenticated (AES-GCM), so the
+ * session id never reaches the browser and the token can't be forged.
+ */
+export function createTransferToken(sessionId: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + TRANSFER_TTL_MS;
+  const payload: TransferPayload = { sessionId, expiresAt, nonce: randomUUID() };
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', transferKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(JSON.stringify(payload), 'utf8'), cipher.final()]);
+  const token = Buffer.concat([iv, cipher.getAuthTag(), encrypted]).toString('base64url');
+  return { token, expiresAt };
+}
+
+/**
+ * Check a transfer token and mark it used. Returns the session it carries, or
+ * null when the token is forged, expired or already redeemed.
+ */
+export async function redeemTransferToken(token: unknown): Promise<string | null> {
+  if (typeof token !== 'string' || token.length > 1000) return null;
+
+  let payload: TransferPayload;
+  try {
+    const raw = Buffer.from(token, 'base64url');
+    const decipher = createDecipheriv('aes-256-gcm', transferKey(), raw.subarray(0, 12));
+    decipher.setAuthTag(raw.subarray(12, 28));
+    const decrypted = Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+    payload = JSON.parse(decrypted.toString('utf8'));
+  } catch {
+    // Tampered, truncated or made with another secret
+    return null;
+  }
+  const remainingMs = payload.expiresAt - Date.now();
+  if (!(remainingMs > 0) || !isValidSessionId(payload.sessionId) || typeof payload.nonce !== 'string') {
+    return null;
+  }
+
+  const store = getRateLimitStore();
+  const usedKey = `transfer:${payload.nonce}`;
+  if (await store.get<boolean>(usedKey)) return null;
+  await store.set(usedKey, true, remainingMs);
+  return payload.sessionId;
+}
@@ -0,0 +1,67 @@
+// src/lib/share-store.ts
+// Read-only snapshots of conversations published through a share link. They
+// are built from the server's copy of the conversation, and only replies this
+// server signed appear as the assistant's.
+// This file is only used on the server side
+
+import { randomBytes } from 'crypto';
+import { appendRecord, readCollection } from '@/lib/file-store';
+import { buildConversationExport, ConversationExport } from '@/lib/conversation-export';
+import { getConversation } from '@/lib/conversation-store';
+import { buildBranch } from '@/lib/conversation-tree';
+import { findConversationProject } from '@/lib/projects';
+import { loadKnowledge } from '@/lib/retrieval';
+import { hasValidSignature, signValue } from '@/lib/session';
+
+const COLLECTION = 'shares';
+
+export interface SharedConversation {
+  /** Unguessable id used in the public URL */
+  id: string;
+  createdAt: number;
+  /** Session that created the link, if any */
+  sessionId?: string;
+  conversation: ConversationExport;
+}
+
+const SHARE_ID_PATTERN = /^[A-Za-z0-9_-]{16}$/;
+
+/**
+ * Sign a finished assistant reply, so a share can tell it from text a client made up
+ */
+export function signReply(content: string): string {
+  return signValue('reply', content);
+}
+
+/**
+ * Snapshot the branch ending at `leafUid` of a conversation stored for the
+ * session. Assistant messages without a valid reply signature are left out.
+ * Returns null when the session has no such conversation.
+ */
+export async function createShare(
+  sessionId: string,
+  conversationId: string,
+  leafUid?: string
+): Promise<SharedConversation | null> {
+  const [stored, { projects }] = await Promise.all([getConversation(sessionId, conversationId), loadKnowledge()]);
+  if (!stored) return null;
+
+  const { messages } = buildBranch(stored.messages, leafUid);
+  const authentic = messages.filter(m =>
+    m.role === 'user' || (m.role === 'assistant' && hasValidSignature('reply', m.content, m.replySignature))
+  );
+  if (authentic.length === 0) return null;
+
+  return appendRecord<SharedConversation>(COLLECTION, {
+    id: randomBytes(12).toString('base64url'),
+    createdAt: Date.now(),
+    sessionId,
+    conversation: buildConversationExport(conversationId, authentic, findConversationProject(projects, conversationId)),
+  });
+}
+
+export async function getShare(id: string): Promise<SharedConversation | null> {
+  if (!SHARE_ID_PATTERN.test(id)) return null;
+  const shares = await readCollection<SharedConversation>(COLLECTION);
+  return shares.find(share => share.id === id) || null;
+}
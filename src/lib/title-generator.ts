@@ -0,0 +1,73 @@
+// src/lib/title-generator.ts
+// Names a conversation after its first exchange
+// This file is only used on the server side
+
+import { getProvider, LLMMessage } from '@/lib/providers';
+import { recordUsage } from '@/lib/usage-store';
+import { recordTokenUsage } from '@/lib/chat-limits';
+
+export const MAX_TITLE_LENGTH = 60;
+
+// Only the opening of each message matters for a title
+const MAX_EXCERPT_CHARS = 1000;
+
+const TITLE_PROMPT = `You name conversations between a prospect and AuraXPro AI, a software agency's assistant.
+
+Reply with a title of 3 to 6 words describing what the prospect wants, in the language they wrote in. No quotes, no trailing punctuation, nothing else.`;
+
+/**
+ * Strip the quotes, prefixes and punctuation models like to add around a title
+ */
+export function cleanTitle(raw: string): string {
+  const title = raw
+    .split('\n')[0]
+    .replace(/^\s*(title\s*:\s*)/i, '')
+    .replace(/^["'`*\s]+|["'`*.!\s]+$/g, '')
+    .replace(/\s+/g, ' ');
+  return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1).trimEnd()}…` : title;
+}
+
+/**
+ * Ask the model for a title, charging the tokens to the visitor's daily budget
+ */
+export async function generateTitle(
+  messages: LLMMessage[],
+  context: { conversationId?: string; sessionKey: string; ip: string }
+): Promise<string> {
+  const transcript = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(m => `${m.role === 'user' ? 'Prospect' : 'AuraXPro AI'}: ${m.content.slice(0, MAX_EXCERPT_CHARS)}`)
+    .join('\n\n');
+
+  const provider = getProvider();
+  const startedAt = Date.now();
+  const response = await provider.complete({
+    temperature: 0.2,
+    maxTokens: 20,
+    messages: [
+      { role: 'system', content: TITLE_PROMPT },
+      { role: 'user', content: transcript },
+    ],
+  });
+
+  const promptTokens = response.usage?.promptTokens ?? 0;
+  const completionTokens = response.usage?.completionTokens ?? 0;
+  await Promise.all([
+    recordTokenUsage(context.sessionKey, context.ip, promptTokens + completionTokens).catch(error => {
+      console.error('Failed to record token usage:', error);
+    }),
+    recordUsage({
+      kind: 'title',
+      provider: provider.name,
+      model: response.model,
+      conversationId: context.conversationId,
+      sessionKey: context.sessionKey,
+      promptTokens,
+      completionTokens,
+      latencyMs: Date.now() - startedAt,
+      status: 200,
+    }),
+  ]);
+
+  return cleanTitle(response.content);
+}
@@ -0,0 +1,74 @@
+// src/lib/tokens.ts
+// Token estimates and context window budgets per model
+
+interface ModelLimits {
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Average characters per token for the model's tokenizer */
+  charsPerToken: number;
+}
+
+// Matched by model name prefix; the first match wins
+const MODEL_LIMITS: [string, ModelLimits][] = [
+  ['gpt-4o', { contextWindow: 128_000, charsPerToken: 4 }],
+  ['gpt-4.1', { contextWindow: 1_000_000, charsPerToken: 4 }],
+  ['gpt-4-turbo', { contextWindow: 128_000, charsPerToken: 4 }],
+  ['gpt-4', { contextWindow: 8_192, charsPerToken: 4 }],
+  ['gpt-3.5', { contextWindow: 16_385, charsPerToken: 4 }],
+  ['claude', { contextWindow: 200_000, charsPerToken: 3.5 }],
+  ['llama3', { contextWindow: 8_192, charsPerToken: 3.8 }],
+  ['mistral', { contextWindow: 32_768, charsPerToken: 3.5 }],
+  ['mock', { contextWindow: 8_192, charsPerToken: 4 }],
+];
+
+const DEFAULT_LIMITS: ModelLimits = { contextWindow: 8_192, charsPerToken: 3.5 };
+
+// Role markers and separators each chat message adds on top of its content
+const MESSAGE_OVERHEAD = 4;
+
+// Tokens kept free for the answer (and tool call round-trips)
+const COMPLETION_RESERVE = 2_048;
+
+// Input cap for large-context models, so long chats don't get needlessly expensive
+const DEFAULT_MAX_INPUT_TOKENS = 12_000;
+
+export function getModelLimits(model: string): ModelLimits {
+  const name = model.toLowerCase();
+  return MODEL_LIMITS.find(([prefix]) => name.startsWith(prefix))?.[1] || DEFAULT_LIMITS;
+}
+
+/**
+ * Estimate the number of tokens in a text for the given model
+ */
+export function countTokens(text: string, model: string): number {
+  return Math.ceil(text.length / getModelLimits(model).charsPerToken);
+}
+
+export function countMessageTokens(messages: { content: string }[], model: string): number {
+  return messages.reduce((sum, m) => sum + countTokens(m.content, model) + MESSAGE_OVERHEAD, 0);
+}
+
+export interface ContextBudget {
+  /** Everything the request may send */
+  input: number;
+  /** Retrieved knowledge chunks */
+  knowledge: number;
+  /** Rolling summary of older turns */
+  summary: number;
+  /** Recent turns, sent verbatim */
+  history: number;
+}
+
+/**
+ * Split the model's input budget between the fixed system prompt, knowledge,
+ * the conversation summary and recent history. `maxInputTokens` defaults to
+ * CHAT_MAX_INPUT_TOKENS (or 12,000).
+ */
+export function getContextBudget(model: string, systemTokens: number, maxInputTokens?: number): ContextBudget {
+  const configured = maxInputTokens ?? (Number(process.env.CHAT_MAX_INPUT_TOKENS) || DEFAULT_MAX_INPUT_TOKENS);
+  const input = Math.min(getModelLimits(model).contextWindow - COMPLETION_RESERVE, configured);
+  const available = Math.max(0, input - systemTokens);
+  const knowledge = Math.floor(available * 0.3);
+  const summary = Math.floor(available * 0.1);
+  return { input, knowledge, summary, history: available - knowledge - summary };
+}
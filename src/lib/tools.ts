@@ -0,0 +1,281 @@
+// src/lib/tools.ts
+// Tools the chat model can call to query projects, services and FAQs precisely
+// This file is only used on the server side
+
+import type { Project } from '@/lib/kb';
+import type {
+  CompletionRequest,
+  LLMMessage,
+  LLMProvider,
+  StreamChunk,
+  TokenUsage,
+  ToolCall,
+  ToolDefinition,
+} from '@/lib/providers';
+import { loadKnowledge, tokenize } from '@/lib/retrieval';
+import { findProjectById, findProjectBySlug, projectTechnologies } from '@/lib/projects';
+import { BUDGET_RANGES, LeadPrefill } from '@/lib/leads';
+import { DEFAULT_LOCALE, Locale, translate } from '@/lib/i18n';
+
+export const TOOL_DEFINITIONS: ToolDefinition[] = [
+  {
+    name: 'searchProjects',
+    description:
+      'Search all AuraXPro projects. Every given filter must match. Use this for questions like "have you built anything with Shopify and R3F?".',
+    parameters: {
+      type: 'object',
+      properties: {
+        stack: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Technologies that must all appear in the project stack or integrations, e.g. ["Shopify", "R3F"]',
+        },
+        category: { type: 'string', description: 'Project category, e.g. "3D Configurator"' },
+        status: { type: 'string', description: 'Project status, e.g. "completed" or "in_progress"' },
+      },
+    },
+  },
+  {
+    name: 'getProject',
+    description: 'Get the full record of one project by its slug (or project id).',
+    parameters: {
+      type: 'object',
+      properties: {
+        slug: { type: 'string', description: 'Project slug, e.g. "vr-room-planner"' },
+      },
+      required: ['slug'],
+    },
+  },
+  {
+    name: 'listServices',
+    description: 'List the services AuraXPro offers, its core stack and its delivery process.',
+    parameters: { type: 'object', properties: {} },
+  },
+  {
+    name: 'getFaq',
+    description: 'Find FAQ answers related to a topic.',
+    parameters: {
+      type: 'object',
+      properties: {
+        topic: { type: 'string', description: 'Topic or question, e.g. "CMS"' },
+      },
+      required: ['topic'],
+    },
+  },
+  {
+    name: 'proposeLeadForm',
+    description:
+      'Show the visitor a short form (name, email, budget range, project summary) so the AuraXPro team can follow up and book a call. ' +
+      'Use it when the visitor asks for a quote, a call or next steps, or clearly wants to start a project. Prefill what you already know.',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: "Visitor's name, if they shared it" },
+        budget: { type: 'string', enum: [...BUDGET_RANGES], description: 'Budget range, if discussed' },
+        summary: { type: 'string', description: 'One-paragraph summary of the project discussed so far' },
+      },
+    },
+  },
+];
+
+/** Extra chunks the tool loop emits alongside the provider's stream */
+export type ToolLoopChunk = StreamChunk | { type: 'lead_form'; prefill: LeadPrefill };
+
+// Upper bound on model round-trips per user turn
+const MAX_TOOL_STEPS = 4;
+
+// Common shorthand visitors use for technologies in our stack
+const STACK_ALIASES: Record<string, string> = {
+  r3f: 'reactthreefiber',
+  threejs: 'three',
+  wp: 'wordpress',
+  postgres: 'postgresql',
+};
+
+function normalize(value: string): string {
+  const compact = value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  return STACK_ALIASES[compact] || compact;
+}
+
+interface ProjectSummary {
+  slug: string;
+  name: string;
+  category?: string;
+  status?: string;
+  budget?: string;
+  stack: string[];
+  tags?: string[];
+}
+
+function summarize(project: Project): ProjectSummary {
+  return {
+    slug: project.slug,
+    name: project.name,
+    category: project.category,
+    status: project.status,
+    budget: project.budget,
+    stack: projectTechnologies(project),
+    tags: project.tags,
+  };
+}
+
+function matches(summary: ProjectSummary, args: { stack?: string[]; category?: string; status?: string }): boolean {
+  if (args.category && !normalize(summary.category || '').includes(normalize(args.category))) {
+    return false;
+  }
+  if (args.status && normalize(summary.status || '') !== normalize(args.status)) {
+    return false;
+  }
+  const haystack = [...summary.stack, ...(summary.tags || [])].map(normalize);
+  return (args.stack || []).every(term => {
+    const needle = normalize(term);
+    return haystack.some(tech => tech.includes(needle));
+  });
+}
+
+async function searchProjects(args: { stack?: string[]; category?: string; status?: string }, locale: Locale) {
+  const { projects } = await loadKnowledge(locale);
+  const results = projects.map(summarize).filter(summary => matches(summary, args));
+  return { count: results.length, projects: results };
+}
+
+async function getProject(args: { slug: string }, locale: Locale) {
+  const { projects } = await loadKnowledge(locale);
+  const project = findProjectBySlug(projects, args.slug) || findProjectById(projects, args.slug);
+  if (project) {
+    // Internal bookkeeping fields are not useful to the model
+    const { conversation_id, ...rest } = project;
+    return { project: rest };
+  }
+  return { error: `No project found with slug "${args.slug}"` };
+}
+
+async function listServices(locale: Locale) {
+  const { kb } = await loadKnowledge(locale);
+  return { services: kb.services, core_stack: kb.core_stack, process: kb.process };
+}
+
+async function getFaq(args: { topic: string }, locale: Locale) {
+  const { kb } = await loadKnowledge(locale);
+  const topicTerms = new Set(tokenize(args.topic || ''));
+  const faqs = kb.faqs
+    .map((faq, index) => ({
+      index,
+      ...faq,
+      score: tokenize(`${faq.q} ${faq.a}`).filter(term => topicTerms.has(term)).length,
+    }))
+    .filter(faq => faq.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, 3)
+    .map(({ score, ...faq }) => faq);
+  return { faqs };
+}
+
+function parseLeadPrefill(rawArguments: string): LeadPrefill {
+  try {
+    const args = JSON.parse(rawArguments || '{}');
+    const prefill: LeadPrefill = {};
+    if (typeof args.name === 'string') prefill.name = args.name;
+    if (typeof args.summary === 'string') prefill.summary = args.summary;
+    if (BUDGET_RANGES.includes(args.budget)) prefill.budget = args.budget;
+    return prefill;
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Run a tool call against the knowledge of the visitor's locale and return its
+ * JSON-encoded result. Failures are reported to the model as `{ error }`
+ * results rather than thrown.
+ */
+export async function executeTool(call: ToolCall, locale: Locale = DEFAULT_LOCALE): Promise<string> {
+  let args: any;
+  try {
+    args = JSON.parse(call.arguments || '{}');
+  } catch {
+    return JSON.stringify({ error: 'Arguments must be valid JSON' });
+  }
+
+  try {
+    switch (call.name) {
+      case 'searchProjects':
+        return JSON.stringify(await searchProjects(args, locale));
+      case 'getProject':
+        return JSON.stringify(await getProject(args, locale));
+      case 'listServices':
+        return JSON.stringify(await listServices(locale));
+      case 'getFaq':
+        return JSON.stringify(await getFaq(args, locale));
+      default:
+        return JSON.stringify({ error: `Unknown tool "${call.name}"` });
+    }
+  } catch (error: any) {
+    console.error(`Tool ${call.name} failed:`, error);
+    return JSON.stringify({ error: error?.message || 'Tool failed' });
+  }
+}
+
+/**
+ * Stream a completion with the tools above, executing any tool calls and feeding
+ * their results back until the model produces a final answer. Content deltas are
+ * passed through as they arrive; usage is summed over all steps and yielded once.
+ */
+export async function* streamWithTools(
+  provider: LLMProvider,
+  request: CompletionRequest,
+  locale: Locale = DEFAULT_LOCALE
+): AsyncGenerator<ToolLoopChunk> {
+  const messages: LLMMessage[] = [...request.messages];
+  const usage: TokenUsage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  let sawUsage = false;
+  let answered = false;
+
+  for (let step = 0; step < MAX_TOOL_STEPS && !answered; step++) {
+    // Don't start another round trip for a reply nobody is waiting for
+    request.signal?.throwIfAborted();
+    const calls: ToolCall[] = [];
+    let content = '';
+
+    for await (const chunk of provider.stream({ ...request, messages, tools: TOOL_DEFINITIONS })) {
+      if (chunk.type === 'delta') {
+        content += chunk.content;
+        yield chunk;
+      } else if (chunk.type === 'tool_call') {
+        calls.push(chunk.call);
+      } else {
+        sawUsage = true;
+        usage.promptTokens += chunk.usage.promptTokens;
+        usage.completionTokens += chunk.usage.completionTokens;
+        usage.totalTokens += chunk.usage.totalTokens;
+      }
+    }
+
+    if (calls.length === 0) {
+      answered = true;
+      break;
+    }
+
+    messages.push({ role: 'assistant', content, toolCalls: calls });
+    for (const call of calls) {
+      if (call.name === 'proposeLeadForm') {
+        // Rendered by the client; the model only learns that the form is showing
+        yield { type: 'lead_form', prefill: parseLeadPrefill(call.arguments) };
+        messages.push({
+          role: 'tool',
+          toolCallId: call.id,
+          content: JSON.stringify({ shown: true, note: 'The form is now visible under your reply. Briefly invite the visitor to fill it in.' }),
+        });
+        continue;
+      }
+      messages.push({ role: 'tool', toolCallId: call.id, content: await executeTool(call, locale) });
+    }
+  }
+
+  if (!answered) {
+    yield { type: 'delta', content: translate(locale, 'messages.lookupFailed') };
+  }
+  if (sawUsage) {
+    yield { type: 'usage', usage };
+  }
+}
@@ -0,0 +1,141 @@
+// src/lib/translations/de.ts
+
+import type { Messages } from '@/lib/translations';
+
+export const de: Messages = {
+  'meta.title': 'AuraXPro AI – Ihr intelligenter Entwicklungsassistent',
+  'meta.description': 'Chatten Sie mit AuraXPro AI über unsere Full-Stack-Webentwicklung, 3D-Konfiguratoren, Shopify-/WordPress-Anpassungen und KI-Lösungen. Fundiertes Wissen zu Next.js, React Three Fiber und modernen Webtechnologien.',
+
+  'language.label': 'Sprache',
+
+  'sidebar.label': 'Seitenleiste',
+  'sidebar.newChat': 'Neuer Chat',
+  'sidebar.searchPlaceholder': 'Chats durchsuchen...',
+  'sidebar.searchLabel': 'Unterhaltungen durchsuchen',
+  'sidebar.noMatches': 'Keine Treffer',
+  'sidebar.matchCountOne': '1 Unterhaltung',
+  'sidebar.matchCount': '{count} Unterhaltungen',
+  'sidebar.moreMatches': '+{count} weitere',
+  'sidebar.you': 'Sie: ',
+  'sidebar.ai': 'KI: ',
+  'sidebar.recentProjects': 'Aktuelle Projekte',
+  'sidebar.conversations': 'Unterhaltungen',
+  'sidebar.conversationTitle': 'Titel der Unterhaltung',
+  'sidebar.messageCount': '{count} Nachr.',
+  'sidebar.pin': 'Unterhaltung anheften',
+  'sidebar.unpin': 'Unterhaltung lösen',
+  'sidebar.rename': 'Unterhaltung umbenennen',
+  'sidebar.delete': 'Unterhaltung löschen',
+  'sidebar.import': 'Unterhaltung importieren (JSON)',
+  'sidebar.syncTitle': 'Link kopieren, der Ihre Unterhaltungen auf einem anderen Gerät öffnet',
+  'sidebar.syncUnavailableTitle': 'Die Server-Synchronisierung ist nicht verfügbar',
+  'sidebar.sync': 'Auf einem anderen Gerät fortsetzen',
+  'sidebar.syncUnavailable': 'Nur auf diesem Gerät gespeichert',
+
+  'conversation.fallback': 'Unterhaltung',
+  'conversation.newChat': 'Neuer Chat',
+  'conversation.projectChat': 'Projekt-Chat',
+  'conversation.confirmDelete': 'Diese Unterhaltung löschen?',
+  'conversation.projectIntro': 'Können Sie dieses Projekt genauer erklären? Ich bin ein neuer Kunde und möchte mehr darüber erfahren.',
+  'conversation.bookCall': 'Gerne vereinbaren wir ein Gespräch! Teilen Sie uns ein paar Details mit, wir melden uns bei Ihnen.',
+
+  'alert.syncUnavailable': 'Die Synchronisierung ist gerade nicht verfügbar – Ihre Unterhaltungen sind nur auf diesem Gerät gespeichert.',
+  'alert.syncCopied': 'Link kopiert! Öffnen Sie ihn innerhalb von 10 Minuten auf einem anderen Gerät, um Ihre Unterhaltungen dort fortzusetzen. Er funktioniert nur einmal.',
+  'alert.transferConfirm': 'Unterhaltungen von Ihrem anderen Gerät fortsetzen? Akzeptieren Sie nur Links, die Sie selbst erstellt haben – wer den Link erstellt hat, kann lesen, was Sie hier schreiben.',
+  'alert.transferFailed': 'Dieser Link ist abgelaufen oder wurde bereits verwendet. Erstellen Sie auf Ihrem anderen Gerät einen neuen.',
+  'alert.invalidJson': 'Diese Datei ist kein gültiges JSON.',
+  'alert.importFailed': 'Import fehlgeschlagen',
+  'alert.briefFailed': 'Das Briefing konnte nicht erstellt werden',
+
+  'header.generating': 'Wird erstellt…',
+  'header.generateBrief': 'Briefing erstellen',
+  'header.bookCall': 'Gespräch buchen',
+
+  'welcome.title': 'Woran arbeiten Sie gerade?',
+  'welcome.subtitle': 'Fragen Sie alles zu Ihrem Projekt',
+  'welcome.suggestions': 'Vorgeschlagene Fragen',
+  suggestedQuestions: [
+    'Welche Leistungen bietet AuraXPro an?',
+    'Welchen Tech-Stack verwenden Sie?',
+    'Übernehmen Sie auch CMS-Projekte?',
+    'Entwickeln Sie 3D-Produktkonfiguratoren?',
+    'Wie lange dauert ein MVP normalerweise?',
+    'Was sind Ihre Stärken in der Entwicklung?',
+  ],
+
+  'messages.label': 'Chat-Nachrichten',
+  'messages.log': 'Chat-Verlauf',
+  'messages.editLabel': 'Nachricht bearbeiten',
+  'messages.cancel': 'Abbrechen',
+  'messages.send': 'Senden',
+  'messages.sources': 'Quellen',
+  'messages.stopped': 'Angehalten',
+  'messages.interrupted': 'Die Antwort wurde unterbrochen.',
+  'messages.failed': 'Etwas ist schiefgelaufen. Bitte versuchen Sie es erneut.',
+  'messages.tooLong': 'Ihre Nachricht ist zu lang. Bitte kürzen Sie sie und versuchen Sie es erneut.',
+  'messages.rateLimited': 'Sie senden Nachrichten zu schnell. Bitte warten Sie {seconds} s und versuchen Sie es erneut.',
+  'messages.dailyLimit': 'Sie haben das heutige Chat-Limit erreicht. Schauen Sie morgen wieder vorbei oder buchen Sie ein Gespräch, dann machen wir dort weiter.',
+  'messages.lookupFailed': 'Leider konnte ich das nicht vollständig nachschlagen. Können Sie die Frage etwas eingrenzen?',
+  'messages.switchBranch': 'Version wechseln',
+  'messages.previousVersion': 'Vorherige Version',
+  'messages.nextVersion': 'Nächste Version',
+  'messages.editAndResend': 'Bearbeiten und erneut senden',
+  'messages.regenerate': 'Antwort neu erzeugen',
+  'messages.thinking': 'Die KI denkt nach',
+
+  'input.placeholder': 'Fragen Sie etwas',
+  'input.label': 'Nachricht',
+  'input.send': 'Nachricht senden',
+  'input.stop': 'Antwort anhalten',
+  'input.disclaimer': 'AuraXPro AI kann Fehler machen. Prüfen Sie wichtige Informationen.',
+
+  'widget.label': 'AuraXPro AI Chat-Widget',
+  'widget.status': 'Antwortet in der Regel sofort',
+  'widget.openFull': 'Vollständigen Chat öffnen',
+  'widget.close': 'Chat schließen',
+  'widget.greeting': 'Hallo! Ich bin AuraXPro AI. Fragen Sie mich nach unseren Leistungen, Projekten oder Ihrer nächsten Idee.',
+  'widget.projectGreeting': 'Hallo! Fragen Sie mich alles zu **{project}**.',
+
+  'lead.title': 'Gespräch mit AuraXPro buchen',
+  'lead.name': 'Name',
+  'lead.email': 'E-Mail',
+  'lead.budget': 'Budgetrahmen',
+  'lead.selectRange': 'Rahmen auswählen',
+  'lead.summary': 'Projektbeschreibung',
+  'lead.sending': 'Wird gesendet…',
+  'lead.send': 'Angaben senden',
+  'lead.failed': 'Etwas ist schiefgelaufen. Bitte versuchen Sie es erneut.',
+  'lead.thanks': 'Danke! Ihre Angaben wurden gesendet – das AuraXPro-Team meldet sich, um ein Gespräch zu vereinbaren.',
+  'lead.nameRequired': 'Bitte geben Sie Ihren Namen ein.',
+  'lead.nameTooLong': 'Der Name ist zu lang.',
+  'lead.emailInvalid': 'Bitte geben Sie eine gültige E-Mail-Adresse ein.',
+  'lead.budgetRequired': 'Bitte wählen Sie einen Budgetrahmen.',
+  'lead.summaryTooShort': 'Erzählen Sie uns etwas mehr über das Projekt (mindestens {min} Zeichen).',
+  'lead.summaryTooLong': 'Die Projektbeschreibung ist zu lang (höchstens {max} Zeichen).',
+  'lead.fixFields': 'Bitte korrigieren Sie die markierten Felder.',
+  'lead.rateLimited': 'Zu viele Anfragen. Bitte versuchen Sie es später erneut.',
+
+  'project.close': 'Schließen',
+  'project.stack': 'Technologien',
+  'project.coreFeatures': 'Kernfunktionen',
+  'project.uniqueValue': 'Alleinstellungsmerkmal:',
+  'project.ask': 'Fragen zu diesem Projekt stellen',
+
+  'brief.label': 'Projektbriefing',
+  'brief.title': 'Projektbriefing',
+  'brief.markdown': 'Markdown',
+  'brief.pdf': 'PDF',
+  'brief.close': 'Schließen',
+
+  'share.button': 'Teilen',
+  'share.sharing': 'Wird geteilt…',
+  'share.copyLink': 'Nur-Lese-Link kopieren',
+  'share.markdown': 'Als Markdown herunterladen',
+  'share.json': 'Als JSON herunterladen',
+  'share.copied': 'Link kopiert! Jeder mit dem Link kann diese Unterhaltung lesen.',
+  'share.failed': 'Der Link konnte nicht erstellt werden',
+  'share.notSynced': 'Diese Unterhaltung ist nicht auf dem Server gespeichert und kann daher nicht geteilt werden. Möglicherweise ist die Synchronisierung deaktiviert.',
+  'share.pageTitle': 'Geteilte Unterhaltung',
+  'share.startChat': 'Eigenen Chat starten',
+  'share.sharedWith': 'Geteilte Unterhaltung mit AuraXPro AI',
+};
@@ -0,0 +1,140 @@
+// src/lib/translations/en.ts
+// English UI strings; the other locales must provide every key
+
+export const en = {
+  'meta.title': 'AuraXPro AI - Intelligent Development Assistant',
+  'meta.description': 'Chat with AuraXPro AI to learn about our full-stack web development services, 3D configurators, Shopify/WordPress customization, and AI-powered solutions. Get expert insights on Next.js, React Three Fiber, and modern web technologies.',
+
+  'language.label': 'Language',
+
+  'sidebar.label': 'Navigation sidebar',
+  'sidebar.newChat': 'New chat',
+  'sidebar.searchPlaceholder': 'Search chats...',
+  'sidebar.searchLabel': 'Search conversations',
+  'sidebar.noMatches': 'No matches',
+  'sidebar.matchCountOne': '1 conversation',
+  'sidebar.matchCount': '{count} conversations',
+  'sidebar.moreMatches': '+{count} more',
+  'sidebar.you': 'You: ',
+  'sidebar.ai': 'AI: ',
+  'sidebar.recentProjects': 'Recent Projects',
+  'sidebar.conversations': 'Conversations',
+  'sidebar.conversationTitle': 'Conversation title',
+  'sidebar.messageCount': '{count} msgs',
+  'sidebar.pin': 'Pin conversation',
+  'sidebar.unpin': 'Unpin conversation',
+  'sidebar.rename': 'Rename conversation',
+  'sidebar.delete': 'Delete conversation',
+  'sidebar.import': 'Import conversation (JSON)',
+  'sidebar.syncTitle': 'Copy a link that opens your conversations on another device',
+  'sidebar.syncUnavailableTitle': 'Server sync is unavailable',
+  'sidebar.sync': 'Continue on another device',
+  'sidebar.syncUnavailable': 'Stored on this device only',
+
+  'conversation.fallback': 'Conversation',
+  'conversation.newChat': 'New Chat',
+  'conversation.projectChat': 'Project Chat',
+  'conversation.confirmDelete': 'Delete this conversation?',
+  'conversation.projectIntro': 'Could you explain about this project in more detail, As I am a new client, I want to know about this project.',
+  'conversation.bookCall': "Happy to set up a call! Share a few details and we'll get back to you.",
+
+  'alert.syncUnavailable': 'Sync is unavailable right now — your conversations are stored on this device only.',
+  'alert.syncCopied': 'Link copied! Open it on another device within 10 minutes to continue your conversations there. It works once.',
+  'alert.transferConfirm': 'Continue the conversations from your other device? Only accept links you created yourself — whoever made the link can read what you chat here.',
+  'alert.transferFailed': 'This link has expired or was already used. Create a new one on your other device.',
+  'alert.invalidJson': 'That file is not valid JSON.',
+  'alert.importFailed': 'Import failed',
+  'alert.briefFailed': 'Failed to generate brief',
+
+  'header.generating': 'Generating…',
+  'header.generateBrief': 'Generate brief',
+  'header.bookCall': 'Book a call',
+
+  'welcome.title': 'What are you working on?',
+  'welcome.subtitle': 'Ask anything about your project',
+  'welcome.suggestions': 'Suggested Questions',
+  suggestedQuestions: [
+    'What services does AuraXPro offer?',
+    'What is your tech stack?',
+    'Do you handle CMS?',
+    'Do you do 3D product configurators?',
+    'How long does an MVP typically take?',
+    'What are your development strengths?',
+  ],
+
+  'messages.label': 'Chat messages',
+  'messages.log': 'Chat conversation',
+  'messages.editLabel': 'Edit message',
+  'messages.cancel': 'Cancel',
+  'messages.send': 'Send',
+  'messages.sources': 'Sources',
+  'messages.stopped': 'Stopped',
+  'messages.interrupted': 'The response was interrupted.',
+  'messages.failed': 'Something went wrong. Please try again.',
+  'messages.tooLong': 'Your message is too long. Please shorten it and try again.',
+  'messages.rateLimited': "You're sending messages too quickly. Please wait {seconds} s and try again.",
+  'messages.dailyLimit': "You've reached today's chat limit. Please come back tomorrow, or book a call and we'll pick it up from here.",
+  'messages.lookupFailed': "Sorry, I couldn't finish looking that up. Could you narrow the question down?",
+  'messages.switchBranch': 'Switch branch',
+  'messages.previousVersion': 'Previous version',
+  'messages.nextVersion': 'Next version',
+  'messages.editAndResend': 'Edit and resend',
+  'messages.regenerate': 'Regenerate response',
+  'messages.thinking': 'AI is thinking',
+
+  'input.placeholder': 'Ask anything',
+  'input.label': 'Message',
+  'input.send': 'Send message',
+  'input.stop': 'Stop generating',
+  'input.disclaimer': 'AuraXPro AI can make mistakes. Check important info.',
+
+  'widget.label': 'AuraXPro AI Chat Widget',
+  'widget.status': 'Usually answers instantly',
+  'widget.openFull': 'Open the full chat',
+  'widget.close': 'Close chat',
+  'widget.greeting': "Hi! I'm AuraXPro AI. Ask me about our services, projects or your next idea.",
+  'widget.projectGreeting': 'Hi! Ask me anything about **{project}**.',
+
+  'lead.title': 'Book a call with AuraXPro',
+  'lead.name': 'Name',
+  'lead.email': 'Email',
+  'lead.budget': 'Budget range',
+  'lead.selectRange': 'Select a range',
+  'lead.summary': 'Project summary',
+  'lead.sending': 'Sending…',
+  'lead.send': 'Send details',
+  'lead.failed': 'Something went wrong. Please try again.',
+  'lead.thanks': 'Thanks! Your details were sent — the AuraXPro team will reach out to book a call.',
+  'lead.nameRequired': 'Please enter your name.',
+  'lead.nameTooLong': 'Name is too long.',
+  'lead.emailInvalid': 'Please enter a valid email address.',
+  'lead.budgetRequired': 'Please pick a budget range.',
+  'lead.summaryTooShort': 'Tell us a little more about the project (at least {min} characters).',
+  'lead.summaryTooLong': 'Project summary is too long (max {max} characters).',
+  'lead.fixFields': 'Please fix the highlighted fields.',
+  'lead.rateLimited': 'Too many requests. Please try again later.',
+
+  'project.close': 'Close',
+  'project.stack': 'Stack',
+  'project.coreFeatures': 'Core Features',
+  'project.uniqueValue': 'Unique value:',
+  'project.ask': 'Ask about this project',
+
+  'brief.label': 'Project brief',
+  'brief.title': 'Project Brief',
+  'brief.markdown': 'Markdown',
+  'brief.pdf': 'PDF',
+  'brief.close': 'Close',
+
+  'share.button': 'Share',
+  'share.sharing': 'Sharing…',
+  'share.copyLink': 'Copy read-only link',
+  'share.markdown': 'Download Markdown',
+  'share.json': 'Download JSON',
+  'share.copied': 'Share link copied! Anyone with the link can read this conversation.',
+  'share.failed': 'Failed to create share link',
+  'share.notSynced': "This conversation isn't stored on the server, so it can't be shared. Sync may be turned off.",
+  'share.pageTitle': 'Shared conversation',
+  'share.startChat': 'Start your own chat',
+  'share.sharedWith': 'Shared conversation with AuraXPro AI',
+};
@@ -0,0 +1,11 @@
+// src/lib/translations/index.ts
+// UI strings per locale. English is the reference: its keys define `Messages`.
+
+import type { Locale } from '@/lib/i18n';
+import { en } from './en';
+import { de } from './de';
+import { ja } from './ja';
+
+export type Messages = typeof en;
+
+export const translations: Record<Locale, Messages> = { en, de, ja };
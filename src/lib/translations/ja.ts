@@ -0,0 +1,141 @@
+// src/lib/translations/ja.ts
+
+import type { Messages } from '@/lib/translations';
+
+export const ja: Messages = {
+  'meta.title': 'AuraXPro AI - インテリジェント開発アシスタント',
+  'meta.description': 'AuraXPro AI とチャットして、フルスタック Web 開発、3D コンフィギュレーター、Shopify/WordPress カスタマイズ、AI ソリューションについてご相談ください。Next.js、React Three Fiber などの最新 Web 技術に精通しています。',
+
+  'language.label': '言語',
+
+  'sidebar.label': 'サイドバー',
+  'sidebar.newChat': '新しいチャット',
+  'sidebar.searchPlaceholder': 'チャットを検索...',
+  'sidebar.searchLabel': '会話を検索',
+  'sidebar.noMatches': '一致する会話はありません',
+  'sidebar.matchCountOne': '1 件の会話',
+  'sidebar.matchCount': '{count} 件の会話',
+  'sidebar.moreMatches': 'ほか {count} 件',
+  'sidebar.you': 'あなた: ',
+  'sidebar.ai': 'AI: ',
+  'sidebar.recentProjects': '最近のプロジェクト',
+  'sidebar.conversations': '会話',
+  'sidebar.conversationTitle': '会話のタイトル',
+  'sidebar.messageCount': '{count} 件',
+  'sidebar.pin': '会話をピン留め',
+  'sidebar.unpin': 'ピン留めを解除',
+  'sidebar.rename': '会話の名前を変更',
+  'sidebar.delete': '会話を削除',
+  'sidebar.import': '会話をインポート (JSON)',
+  'sidebar.syncTitle': '別のデバイスで会話を開くリンクをコピー',
+  'sidebar.syncUnavailableTitle': 'サーバー同期は利用できません',
+  'sidebar.sync': '別のデバイスで続ける',
+  'sidebar.syncUnavailable': 'このデバイスにのみ保存',
+
+  'conversation.fallback': '会話',
+  'conversation.newChat': '新しいチャット',
+  'conversation.projectChat': 'プロジェクトチャット',
+  'conversation.confirmDelete': 'この会話を削除しますか？',
+  'conversation.projectIntro': '新規のクライアントとして、このプロジェクトについて詳しく教えていただけますか？',
+  'conversation.bookCall': 'ぜひお打ち合わせしましょう！詳細を少し教えていただければ、こちらからご連絡いたします。',
+
+  'alert.syncUnavailable': '現在同期を利用できません。会話はこのデバイスにのみ保存されています。',
+  'alert.syncCopied': 'リンクをコピーしました！10 分以内に別のデバイスで開くと、そこで会話を続けられます。リンクは 1 回のみ有効です。',
+  'alert.transferConfirm': '別のデバイスの会話をこのブラウザで続けますか？ご自身で作成したリンクのみ承認してください。リンクの作成者は、ここでのチャット内容を閲覧できます。',
+  'alert.transferFailed': 'このリンクは有効期限切れか、すでに使用されています。別のデバイスで新しいリンクを作成してください。',
+  'alert.invalidJson': 'このファイルは有効な JSON ではありません。',
+  'alert.importFailed': 'インポートに失敗しました',
+  'alert.briefFailed': 'ブリーフを作成できませんでした',
+
+  'header.generating': '作成中…',
+  'header.generateBrief': 'ブリーフを作成',
+  'header.bookCall': '打ち合わせを予約',
+
+  'welcome.title': 'どんなプロジェクトに取り組んでいますか？',
+  'welcome.subtitle': 'プロジェクトについて何でも聞いてください',
+  'welcome.suggestions': 'おすすめの質問',
+  suggestedQuestions: [
+    'AuraXPro はどんなサービスを提供していますか？',
+    '技術スタックを教えてください。',
+    'CMS にも対応していますか？',
+    '3D 製品コンフィギュレーターは作れますか？',
+    'MVP の開発期間はどのくらいですか？',
+    '開発における強みは何ですか？',
+  ],
+
+  'messages.label': 'チャットメッセージ',
+  'messages.log': 'チャットの会話',
+  'messages.editLabel': 'メッセージを編集',
+  'messages.cancel': 'キャンセル',
+  'messages.send': '送信',
+  'messages.sources': '出典',
+  'messages.stopped': '停止しました',
+  'messages.interrupted': '回答が中断されました。',
+  'messages.failed': 'エラーが発生しました。もう一度お試しください。',
+  'messages.tooLong': 'メッセージが長すぎます。短くしてもう一度お試しください。',
+  'messages.rateLimited': 'メッセージの送信が速すぎます。{seconds} 秒待ってからもう一度お試しください。',
+  'messages.dailyLimit': '本日のチャット上限に達しました。明日またお越しいただくか、打ち合わせをご予約ください。続きはそちらで承ります。',
+  'messages.lookupFailed': '申し訳ありません、検索を完了できませんでした。質問をもう少し絞っていただけますか？',
+  'messages.switchBranch': 'バージョンを切り替え',
+  'messages.previousVersion': '前のバージョン',
+  'messages.nextVersion': '次のバージョン',
+  'messages.editAndResend': '編集して再送信',
+  'messages.regenerate': '回答を再生成',
+  'messages.thinking': 'AI が考えています',
+
+  'input.placeholder': '何でも聞いてください',
+  'input.label': 'メッセージ',
+  'input.send': 'メッセージを送信',
+  'input.stop': '生成を停止',
+  'input.disclaimer': 'AuraXPro AI は間違えることがあります。重要な情報はご確認ください。',
+
+  'widget.label': 'AuraXPro AI チャットウィジェット',
+  'widget.status': '通常すぐに回答します',
+  'widget.openFull': 'チャット画面を開く',
+  'widget.close': 'チャットを閉じる',
+  'widget.greeting': 'こんにちは！AuraXPro AI です。サービスや実績、次のアイデアについて何でもお聞きください。',
+  'widget.projectGreeting': 'こんにちは！**{project}** について何でもお聞きください。',
+
+  'lead.title': 'AuraXPro との打ち合わせを予約',
+  'lead.name': 'お名前',
+  'lead.email': 'メールアドレス',
+  'lead.budget': 'ご予算',
+  'lead.selectRange': '予算を選択',
+  'lead.summary': 'プロジェクトの概要',
+  'lead.sending': '送信中…',
+  'lead.send': '送信する',
+  'lead.failed': 'エラーが発生しました。もう一度お試しください。',
+  'lead.thanks': 'ありがとうございます！送信が完了しました。AuraXPro チームより打ち合わせのご連絡をいたします。',
+  'lead.nameRequired': 'お名前を入力してください。',
+  'lead.nameTooLong': 'お名前が長すぎます。',
+  'lead.emailInvalid': '有効なメールアドレスを入力してください。',
+  'lead.budgetRequired': 'ご予算を選択してください。',
+  'lead.summaryTooShort': 'プロジェクトについてもう少し詳しく教えてください（{min} 文字以上）。',
+  'lead.summaryTooLong': 'プロジェクトの概要が長すぎます（最大 {max} 文字）。',
+  'lead.fixFields': '入力内容をご確認ください。',
+  'lead.rateLimited': 'リクエストが多すぎます。しばらくしてからもう一度お試しください。',
+
+  'project.close': '閉じる',
+  'project.stack': '技術スタック',
+  'project.coreFeatures': '主な機能',
+  'project.uniqueValue': '独自の価値：',
+  'project.ask': 'このプロジェクトについて質問する',
+
+  'brief.label': 'プロジェクト概要書',
+  'brief.title': 'プロジェクト概要書',
+  'brief.markdown': 'Markdown',
+  'brief.pdf': 'PDF',
+  'brief.close': '閉じる',
+
+  'share.button': '共有',
+  'share.sharing': '共有中…',
+  'share.copyLink': '閲覧用リンクをコピー',
+  'share.markdown': 'Markdown でダウンロード',
+  'share.json': 'JSON でダウンロード',
+  'share.copied': 'リンクをコピーしました！リンクを知っている人は誰でもこの会話を閲覧できます。',
+  'share.failed': '共有リンクを作成できませんでした',
+  'share.notSynced': 'この会話はサーバーに保存されていないため共有できません。同期が無効になっている可能性があります。',
+  'share.pageTitle': '共有された会話',
+  'share.startChat': '自分のチャットを始める',
+  'share.sharedWith': 'AuraXPro AI との共有された会話',
+};
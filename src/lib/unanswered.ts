@@ -0,0 +1,59 @@
+// src/lib/unanswered.ts
+// Detects assistant replies where the assistant admitted it didn't know
+
+import type { ChatMessage } from '@/lib/conversation-db';
+import { LOCALES, Locale } from '@/lib/i18n';
+
+// Stored conversations don't record the interface language, and visitors can
+// switch it mid-conversation, so replies are checked against every locale
+const UNANSWERED_PATTERNS: Record<Locale, RegExp[]> = {
+  en: [
+    /\bI (?:don't|do not) know\b/i,
+    /\bI(?:'m| am) not sure\b/i,
+    /\bI (?:don't|do not) have (?:any |specific |enough |that |this )?(?:information|details|data|access)\b/i,
+    /\b(?:isn't|is not|wasn't|was not) (?:available|provided|mentioned|included) in (?:my|the) (?:knowledge|information|context)\b/i,
+    /\bI (?:couldn't|could not|can't|cannot) find\b/i,
+    /\bI(?:'m| am) (?:unable|not able) to (?:answer|provide|confirm)\b/i,
+  ],
+  de: [
+    /\b(?:ich wei(?:ß|ss)|wei(?:ß|ss) ich) (?:es |das )?(?:leider )?nicht\b/i,
+    /\bich bin (?:mir )?(?:leider )?nicht sicher\b/i,
+    /\b(?:ich habe|habe ich|liegen mir)(?: dazu| hierzu| leider)* keine (?:genauen |konkreten |weiteren )?(?:Informationen|Angaben|Details|Daten)\b/i,
+    /\bnicht in (?:meinem|meinen|den) (?:Wissen|Informationen|Unterlagen)\b/i,
+    /\b(?:kann|konnte) ich\b[^.\n]{0,30}\b(?:nichts|nicht) finden\b/i,
+    /\bkann ich (?:leider )?nicht (?:beantworten|bestätigen|sagen)\b/i,
+  ],
+  ja: [
+    /わかりません|分かりません|存じません/,
+    /確かではありません|定かではありません|確信が持てません/,
+    /(?:情報|詳細|データ)(?:が|は)(?:ありません|ございません|見つかりません)/,
+    /見つけられませんでした|見つかりませんでした/,
+    /(?:お答え|回答|確認)(?:できません|いたしかねます)/,
+  ],
+};
+
+export interface UnansweredQuestion {
+  question: string;
+  answer: string;
+  ts: number;
+}
+
+export function isUnansweredReply(content: string): boolean {
+  return LOCALES.some(locale => UNANSWERED_PATTERNS[locale].some(pattern => pattern.test(content)));
+}
+
+/**
+ * Pair each "don't know" assistant reply (or failed reply) with the user question before it
+ */
+export function findUnansweredQuestions(messages: Pick<ChatMessage, 'role' | 'content' | 'ts' | 'status'>[]): UnansweredQuestion[] {
+  const results: UnansweredQuestion[] = [];
+  messages.forEach((message, i) => {
+    if (message.role !== 'assistant') return;
+    if (message.status !== 'error' && !isUnansweredReply(message.content)) return;
+    const question = messages.slice(0, i).reverse().find(m => m.role === 'user');
+    if (question) {
+      results.push({ question: question.content, answer: message.content, ts: message.ts });
+    }
+  });
+  return results;
+}
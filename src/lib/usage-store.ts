@@ -0,0 +1,216 @@
+// src/lib/usage-store.ts
+// Records token usage, cost and latency of every model call and aggregates
+// them into metrics for the admin dashboard. Records go to one append-only log
+// per UTC day, so recording a call never reads or rewrites older usage.
+// This file is only used on the server side
+
+import { randomUUID } from 'crypto';
+import { appendToLog, listLogs, readCollection, readLog, removeCollection, removeLog } from '@/lib/file-store';
+import { listLeads } from '@/lib/lead-store';
+import { computeCost } from '@/lib/usage';
+
+const FOLDER = 'usage';
+// Single file holding all records, from before the daily logs
+const LEGACY_COLLECTION = 'usage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Logs of older days are deleted
+const RETENTION_DAYS = 90;
+
+/** Status recorded when the visitor stopped the reply or disconnected (nginx's "client closed request") */
+export const CLIENT_CLOSED_STATUS = 499;
+
+export interface UsageRecord {
+  id: string;
+  ts: number;
+  /** What the call was for */
+  kind: 'chat' | 'summary' | 'brief' | 'title';
+  provider: string;
+  model: string;
+  conversationId?: string;
+  sessionKey?: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  /** Time from sending the request to the end of the response */
+  latencyMs: number;
+  /** Time to the first streamed token, for streaming calls */
+  firstTokenMs?: number;
+  /** HTTP-style outcome: 200 on success, 499 when stopped, otherwise the provider's error status */
+  status: number;
+}
+
+export type UsageInput = Omit<UsageRecord, 'id' | 'ts' | 'costUSD' | 'totalTokens'>;
+
+export interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUSD: number;
+  avgLatencyMs: number;
+  /** Share of calls that failed, 0–1 */
+  errorRate: number;
+  /** Failed calls by status code, e.g. { "429": 3 } */
+  errorsByStatus: Record<string, number>;
+}
+
+export interface UsageMetrics {
+  from: number;
+  to: number;
+  totals: UsageTotals;
+  days: (UsageTotals & { date: string })[];
+  models: (UsageTotals & { model: string })[];
+  leads: number;
+  /** Total cost divided by leads captured in the same period */
+  costPerLead: number | null;
+}
+
+function dayOf(ts: number): string {
+  return new Date(ts).toISOString().slice(0, 10);
+}
+
+function dayLog(ts: number): string {
+  return `${FOLDER}/${dayOf(ts)}`;
+}
+
+let migration: Promise<void> | null = null;
+
+/**
+ * Move records from the legacy single file into the daily logs, once
+ */
+function migrateLegacyStore(): Promise<void> {
+  if (!migration) {
+    migration = (async () => {
+      for (const record of await readCollection<UsageRecord>(LEGACY_COLLECTION)) {
+        await appendToLog(dayLog(record.ts), record);
+      }
+      await removeCollection(LEGACY_COLLECTION);
+    })().catch(error => {
+      migration = null;
+      throw error;
+    });
+  }
+  return migration;
+}
+
+let lastPrunedDay: string | null = null;
+
+/**
+ * Delete logs past the retention period, at most once a day
+ */
+async function pruneOldLogs(now: number): Promise<void> {
+  const today = dayOf(now);
+  if (lastPrunedDay === today) return;
+  lastPrunedDay = today;
+  const cutoff = `${FOLDER}/${dayOf(now - RETENTION_DAYS * DAY_MS)}`;
+  const stale = (await listLogs(FOLDER)).filter(name => name < cutoff);
+  await Promise.all(stale.map(removeLog));
+}
+
+/**
+ * Records from `from` (a timestamp) on, oldest day first
+ */
+async function readRecords(from = 0): Promise<UsageRecord[]> {
+  await migrateLegacyStore();
+  const first = dayLog(from);
+  const logs = (await listLogs(FOLDER)).filter(name => name >= first).sort();
+  const records = (await Promise.all(logs.map(name => readLog<UsageRecord>(name)))).flat();
+  return records.filter(r => r.ts >= from);
+}
+
+/**
+ * Store one model call. Failures are logged, not thrown: metrics must never
+ * break a chat response.
+ */
+export async function recordUsage(input: UsageInput): Promise<void> {
+  const record: UsageRecord = {
+    ...input,
+    id: randomUUID(),
+    ts: Date.now(),
+    totalTokens: input.promptTokens + input.completionTokens,
+    costUSD: computeCost(input.model, input),
+  };
+
+  try {
+    await migrateLegacyStore();
+    await appendToLog(dayLog(record.ts), record);
+    await pruneOldLogs(record.ts);
+  } catch (error) {
+    console.error('Failed to record usage:', error);
+  }
+}
+
+/**
+ * Total recorded cost per conversation, keyed by `<sessionId>:<conversationId>`
+ * (project chats share a conversation id across visitors)
+ */
+export async function getCostByConversation(): Promise<Map<string, number>> {
+  const costs = new Map<string, number>();
+  for (const record of await readRecords()) {
+    if (record.conversationId && record.sessionKey) {
+      const key = `${record.sessionKey}:${record.conversationId}`;
+      costs.set(key, (costs.get(key) || 0) + record.costUSD);
+    }
+  }
+  return costs;
+}
+
+function totalsOf(records: UsageRecord[]): UsageTotals {
+  // A stopped reply is the visitor's choice, not a failure
+  const errors = records.filter(r => r.status >= 400 && r.status !== CLIENT_CLOSED_STATUS);
+  const errorsByStatus: Record<string, number> = {};
+  for (const record of errors) {
+    errorsByStatus[record.status] = (errorsByStatus[record.status] || 0) + 1;
+  }
+
+  return {
+    calls: records.length,
+    promptTokens: records.reduce((sum, r) => sum + r.promptTokens, 0),
+    completionTokens: records.reduce((sum, r) => sum + r.completionTokens, 0),
+    totalTokens: records.reduce((sum, r) => sum + r.totalTokens, 0),
+    costUSD: records.reduce((sum, r) => sum + r.costUSD, 0),
+    avgLatencyMs: records.length > 0
+      ? Math.round(records.reduce((sum, r) => sum + r.latencyMs, 0) / records.length)
+      : 0,
+    errorRate: records.length > 0 ? errors.length / records.length : 0,
+    errorsByStatus,
+  };
+}
+
+function groupBy(records: UsageRecord[], key: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const record of records) {
+    const value = key(record);
+    groups.set(value, [...(groups.get(value) || []), record]);
+  }
+  return groups;
+}
+
+/**
+ * Aggregate usage over the last `days` days (UTC), newest day first
+ */
+export async function getUsageMetrics(days = 30): Promise<UsageMetrics> {
+  const to = Date.now();
+  const from = to - days * DAY_MS;
+  const [inRange, leads] = await Promise.all([readRecords(from), listLeads()]);
+  const leadCount = leads.filter(lead => lead.createdAt >= from).length;
+  const totals = totalsOf(inRange);
+
+  const byDay = groupBy(inRange, r => new Date(r.ts).toISOString().slice(0, 10));
+  const byModel = groupBy(inRange, r => r.model);
+
+  return {
+    from,
+    to,
+    totals,
+    days: Array.from(byDay, ([date, group]) => ({ date, ...totalsOf(group) }))
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    models: Array.from(byModel, ([model, group]) => ({ model, ...totalsOf(group) }))
+      .sort((a, b) => b.costUSD - a.costUSD),
+    leads: leadCount,
+    costPerLead: leadCount > 0 ? totals.costUSD / leadCount : null,
+  };
+}
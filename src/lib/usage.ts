@@ -0,0 +1,47 @@
+// src/lib/usage.ts
+// Model pricing and cost calculation, shared by the chat route, the admin
+// dashboard and the client
+
+import type { ChatUsage } from '@/lib/chat-events';
+
+interface ModelPrice {
+  /** USD per million prompt tokens */
+  input: number;
+  /** USD per million completion tokens */
+  output: number;
+}
+
+// Matched by model name prefix; more specific names come first
+const MODEL_PRICES: [string, ModelPrice][] = [
+  ['gpt-4o-mini', { input: 0.15, output: 0.6 }],
+  ['gpt-4o', { input: 2.5, output: 10 }],
+  ['gpt-4.1-nano', { input: 0.1, output: 0.4 }],
+  ['gpt-4.1-mini', { input: 0.4, output: 1.6 }],
+  ['gpt-4.1', { input: 2, output: 8 }],
+  ['gpt-4-turbo', { input: 10, output: 30 }],
+  ['gpt-3.5-turbo', { input: 0.5, output: 1.5 }],
+  ['claude-3-5-haiku', { input: 0.8, output: 4 }],
+  ['claude-3-haiku', { input: 0.25, output: 1.25 }],
+  ['claude-3-opus', { input: 15, output: 75 }],
+  ['claude', { input: 3, output: 15 }],
+];
+
+/**
+ * Price for a model; self-hosted and unknown models are free
+ */
+export function getModelPrice(model: string): ModelPrice {
+  const name = model.toLowerCase();
+  return MODEL_PRICES.find(([prefix]) => name.startsWith(prefix))?.[1] || { input: 0, output: 0 };
+}
+
+export function computeCost(model: string, usage: Pick<ChatUsage, 'promptTokens' | 'completionTokens'>): number {
+  const price = getModelPrice(model);
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Format a (usually tiny) USD amount, e.g. "$0.0042"
+ */
+export function formatCost(amount: number): string {
+  return `$${amount.toFixed(amount >= 1 ? 2 : 4)}`;
+}
@@ -0,0 +1,59 @@
+// src/lib/widget.ts
+// Configuration and postMessage protocol of the embeddable chat widget.
+// The loader (public/embed.js) frames /embed and talks to it with these messages.
+
+import { Locale, isLocale } from '@/lib/i18n';
+
+export type WidgetTheme = 'dark' | 'light';
+
+export interface WidgetConfig {
+  /** Slug of the project the chat starts about */
+  project?: string;
+  theme: WidgetTheme;
+  /** First assistant bubble; a default is shown when missing */
+  greeting?: string;
+  /** Interface language; detected from the visitor's browser when missing */
+  locale?: Locale;
+}
+
+/** Messages the host page (through the loader) sends to the widget */
+export type WidgetCommand =
+  | { type: 'auraxpro:select-project'; project: string | null };
+
+/** Messages the widget sends to the host page */
+export type WidgetEvent =
+  | { type: 'auraxpro:ready' }
+  | { type: 'auraxpro:close' };
+
+const MAX_GREETING_LENGTH = 280;
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+function firstValue(value: string | string[] | undefined): string | undefined {
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Read the widget configuration from the /embed query string. Unknown or
+ * malformed values fall back to the defaults instead of failing the page.
+ */
+export function parseWidgetConfig(params: Record<string, string | string[] | undefined>): WidgetConfig {
+  const project = firstValue(params.project)?.trim().toLowerCase();
+  const greeting = firstValue(params.greeting)?.trim().slice(0, MAX_GREETING_LENGTH);
+  const locale = firstValue(params.locale);
+  return {
+    project: project && SLUG_PATTERN.test(project) ? project : undefined,
+    theme: firstValue(params.theme) === 'light' ? 'light' : 'dark',
+    greeting: greeting || undefined,
+    locale: isLocale(locale) ? locale : undefined,
+  };
+}
+
+/**
+ * Narrow a `message` event payload to a widget command
+ */
+export function isWidgetCommand(data: unknown): data is WidgetCommand {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Record<string, unknown>;
+  return message.type === 'auraxpro:select-project' &&
+    (message.project === null || typeof message.project === 'string');
+}
@@ -1,47 +0,0 @@
-import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-
-export interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: number;
-}
-
-interface ChatState {
-  messages: Message[];
-  isLoading: boolean;
-  error: string | null;
-  addMessage: (message: Omit<Message, 'id' | 'timestamp'>) => void;
-  setLoading: (loading: boolean) => void;
-  setError: (error: string | null) => void;
-  clearChat: () => void;
-}
-
-export const useChatStore = create<ChatState>()(
-  persist(
-    (set) => ({
-      messages: [],
-      isLoading: false,
-      error: null,
-      addMessage: (message) =>
-        set((state) => ({
-          messages: [
-            ...state.messages,
-            {
-              ...message,
-              id: crypto.randomUUID(),
-              timestamp: Date.now(),
-            },
-          ],
-        })),
-      setLoading: (loading) => set({ isLoading: loading }),
-      setError: (error) => set({ error }),
-      clearChat: () => set({ messages: [], error: null }),
-    }),
-    {
-      name: 'auraxpro-chat-storage',
-    }
-  )
-);
-